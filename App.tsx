@@ -1,16 +1,28 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { DIALOGUES, STORAGE_KEYS } from './constants';
 import { DialogueCard } from './components/DialogueCard';
 import { ContentGenerator } from './components/ContentGenerator';
-import { generateContentByFilter } from './services/geminiService';
-import { AppState, Dialogue, ContentCategory } from './types';
-import { Sparkles, Plus, PlayCircle, Clock, Filter, Globe, Mic, Video, Tv, Coffee, Wand2, Loader2, RefreshCw, AlertCircle, Key, Settings, X } from 'lucide-react';
+import { SettingsModal } from './components/SettingsModal';
+import { ProgressDashboard } from './components/ProgressDashboard';
+import { VocabularyNotebook } from './components/VocabularyNotebook';
+import { DialogueEditor } from './components/DialogueEditor';
+import { generateContentByFilter, fetchDialogueAudio, needsApiKey } from './services/geminiService';
+import { hasDialogueAudio, hasRecording } from './services/audioCache';
+import { autoCast, isCastComplete } from './services/voiceCasting';
+import { getDueReviews } from './services/reviewScheduler';
+import { loadPracticeLog, getStreak } from './services/practiceLog';
+import { ModelResponseError } from './services/responseValidation';
+import { matchesSearch, collectTags, duplicateDialogue, purgeDialogueData } from './services/library';
+import { I18nContext, createI18n, loadLanguage, saveLanguage, MessageKey } from './services/i18n';
+import { AppState, Dialogue, ContentCategory, Language } from './types';
+import { Sparkles, Plus, PlayCircle, Clock, Filter, Globe, Mic, Video, Tv, Coffee, Wand2, Loader2, RefreshCw, AlertCircle, Key, Settings, CalendarClock, Download, CheckCircle2, Search, Tag, Pencil, Copy, Trash2, Undo2, X, BarChart3, Flame, BookMarked } from 'lucide-react';
 
-type Language = 'en' | 'zh';
 type DifficultyFilter = 'All' | 'Beginner' | 'Intermediate' | 'Advanced';
 type DurationFilter = 'All' | '< 3 min' | '3-5 min' | '> 5 min';
 
+const UNDO_DELETE_MS = 6000;
+
 const App: React.FC = () => {
   const [dialogues, setDialogues] = useState<Dialogue[]>(() => {
     try {
@@ -22,22 +34,36 @@ const App: React.FC = () => {
   const [activeDialogue, setActiveDialogue] = useState<Dialogue | null>(null);
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [isGeneratorOpen, setIsGeneratorOpen] = useState(false);
-  const [globalError, setGlobalError] = useState<string | null>(null);
+  const [globalError, setGlobalError] = useState<MessageKey | null>(null);
   const [isAutoGenerating, setIsAutoGenerating] = useState(false);
   
-  // API Key Setup
+  // Settings / API Key Setup
   const [showKeyModal, setShowKeyModal] = useState(false);
-  const [tempKey, setTempKey] = useState(localStorage.getItem('GEMINI_API_KEY') || '');
+  const [showProgress, setShowProgress] = useState(false);
+  const [showVocabulary, setShowVocabulary] = useState(false);
   const hasInternalKey = !!process.env.API_KEY;
 
-  const [language, setLanguage] = useState<Language>(() => {
-    const saved = localStorage.getItem(STORAGE_KEYS.LANGUAGE);
-    return (saved as Language) || 'en';
-  });
+  const [language, setLanguage] = useState<Language>(loadLanguage);
+  const i18n = useMemo(() => createI18n(language), [language]);
+  const { t } = i18n;
   
   const [activeCategory, setActiveCategory] = useState<ContentCategory | 'All'>('All');
   const [difficultyFilter, setDifficultyFilter] = useState<DifficultyFilter>('All');
   const [durationFilter, setDurationFilter] = useState<DurationFilter>('All');
+  const [showDueOnly, setShowDueOnly] = useState(false);
+  const [offlineIds, setOfflineIds] = useState<Set<string>>(new Set());
+  const [downloadingIds, setDownloadingIds] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState('All');
+  const [editingDialogue, setEditingDialogue] = useState<Dialogue | null>(null);
+  // The deleted dialogue and where it sat, kept until the undo window closes.
+  const [pendingDelete, setPendingDelete] = useState<{ dialogue: Dialogue; index: number } | null>(null);
+  const deleteTimerRef = useRef<number | null>(null);
+  const allTags = useMemo(() => collectTags(dialogues), [dialogues]);
+
+  // Re-read the schedule whenever we return to the list, since reviews are recorded inside DialogueCard.
+  const streak = useMemo(() => getStreak(loadPracticeLog()), [activeDialogue]);
+  const dueIds = useMemo(() => getDueReviews().map(r => r.dialogueId).filter(id => dialogues.some(d => d.id === id)), [activeDialogue, dialogues]);
 
   useEffect(() => {
     const lastActiveId = localStorage.getItem(STORAGE_KEYS.ACTIVE_DIALOGUE_ID);
@@ -46,7 +72,7 @@ const App: React.FC = () => {
       if (found) setActiveDialogue(found);
     }
     // Auto show key modal if no key exists
-    if (!hasInternalKey && !localStorage.getItem('GEMINI_API_KEY')) {
+    if (needsApiKey()) {
       setShowKeyModal(true);
     }
   }, []);
@@ -60,16 +86,10 @@ const App: React.FC = () => {
     else localStorage.removeItem(STORAGE_KEYS.ACTIVE_DIALOGUE_ID);
   }, [activeDialogue]);
 
-  const saveApiKey = () => {
-    localStorage.setItem('GEMINI_API_KEY', tempKey);
-    setShowKeyModal(false);
-    window.location.reload(); // Reload to re-init services
-  };
-
   const handleLanguageToggle = () => {
     const newLang = language === 'en' ? 'zh' : 'en';
     setLanguage(newLang);
-    localStorage.setItem(STORAGE_KEYS.LANGUAGE, newLang);
+    saveLanguage(newLang);
   };
 
   const handleNewDialogue = (newDialogue: Dialogue) => {
@@ -77,6 +97,71 @@ const App: React.FC = () => {
     setActiveDialogue(newDialogue);
   };
 
+  const handleUpdateDialogue = (updated: Dialogue) => {
+    setDialogues(prev => prev.map(d => d.id === updated.id ? updated : d));
+    setActiveDialogue(updated);
+  };
+
+  const handleSaveEdit = (updated: Dialogue) => {
+    setDialogues(prev => prev.map(d => d.id === updated.id ? updated : d));
+    setEditingDialogue(null);
+  };
+
+  const handleDuplicate = (d: Dialogue) => {
+    const copy = duplicateDialogue(d, t('app.copyTitle', { title: d.title }));
+    setDialogues(prev => {
+      const index = prev.findIndex(x => x.id === d.id);
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  };
+
+  const handleDelete = (d: Dialogue) => {
+    // Only one delete can be undone at a time; an earlier one is committed straight away.
+    if (deleteTimerRef.current) window.clearTimeout(deleteTimerRef.current);
+    if (pendingDelete) purgeDialogueData(pendingDelete.dialogue.id);
+    setPendingDelete({ dialogue: d, index: dialogues.findIndex(x => x.id === d.id) });
+    setDialogues(prev => prev.filter(x => x.id !== d.id));
+    deleteTimerRef.current = window.setTimeout(() => {
+      purgeDialogueData(d.id);
+      setPendingDelete(null);
+      deleteTimerRef.current = null;
+    }, UNDO_DELETE_MS);
+  };
+
+  const handleUndoDelete = () => {
+    if (!pendingDelete) return;
+    if (deleteTimerRef.current) window.clearTimeout(deleteTimerRef.current);
+    deleteTimerRef.current = null;
+    const { dialogue, index } = pendingDelete;
+    setDialogues(prev => [...prev.slice(0, index), dialogue, ...prev.slice(index)]);
+    setPendingDelete(null);
+  };
+
+  useEffect(() => {
+    if (activeDialogue) return;
+    let cancelled = false;
+    Promise.all(dialogues.map(async d => (d.recording && await hasRecording(d.id)) || (await hasDialogueAudio(d.id, d.lines, autoCast(d.lines, d.cast))) ? d.id : null))
+      .then(ids => { if (!cancelled) setOfflineIds(new Set(ids.filter((id): id is string => !!id))); });
+    return () => { cancelled = true; };
+  }, [dialogues, activeDialogue]);
+
+  const handleDownloadOffline = async (d: Dialogue) => {
+    if (downloadingIds.has(d.id) || offlineIds.has(d.id)) return;
+    setDownloadingIds(prev => new Set(prev).add(d.id));
+    try {
+      // Pin the cast first so the cached voices are the ones played back later.
+      const cast = isCastComplete(d) ? d.cast! : autoCast(d.lines, d.cast);
+      if (cast !== d.cast) setDialogues(prev => prev.map(x => x.id === d.id ? { ...x, cast } : x));
+      await fetchDialogueAudio(d.id, d.lines, cast);
+      setOfflineIds(prev => new Set(prev).add(d.id));
+    } catch (e: any) {
+      if (e.message === "MISSING_API_KEY") setShowKeyModal(true);
+      else setGlobalError('app.downloadFailed');
+    } finally {
+      setDownloadingIds(prev => { const next = new Set(prev); next.delete(d.id); return next; });
+    }
+  };
+
   const handleAutoGenerate = async () => {
     if (activeCategory === 'All') return;
     setIsAutoGenerating(true);
@@ -85,7 +170,7 @@ const App: React.FC = () => {
       handleNewDialogue(newContent);
     } catch (e: any) {
       if (e.message === "MISSING_API_KEY") setShowKeyModal(true);
-      else setGlobalError("Generation failed. Please check your API key.");
+      else setGlobalError(e instanceof ModelResponseError ? 'errors.badReply' : 'app.generationFailed');
     } finally { setIsAutoGenerating(false); }
   };
 
@@ -98,14 +183,19 @@ const App: React.FC = () => {
     return true;
   };
 
-  const filteredDialogues = dialogues.filter(d => {
+  const matchesFilters = (d: Dialogue) => {
     const catMatch = activeCategory === 'All' || d.category === activeCategory;
     const diffMatch = difficultyFilter === 'All' || d.difficulty === difficultyFilter;
     const durMatch = checkDuration(d.duration, durationFilter);
-    return catMatch && diffMatch && durMatch;
-  });
+    const tagMatch = tagFilter === 'All' || (d.tags || []).includes(tagFilter);
+    return catMatch && diffMatch && durMatch && tagMatch && matchesSearch(d, searchQuery);
+  };
 
-  const todayDate = new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+  const filteredDialogues = showDueOnly
+    ? dueIds.map(id => dialogues.find(d => d.id === id)!).filter(d => matchesSearch(d, searchQuery))
+    : dialogues.filter(matchesFilters);
+
+  const todayDate = i18n.formatDate(new Date(), { weekday: 'long', month: 'long', day: 'numeric' });
   const getCategoryIcon = (cat: string) => {
     switch(cat) {
       case 'BBC News': return <Globe size={14} />;
@@ -118,47 +208,65 @@ const App: React.FC = () => {
   const categories: (ContentCategory | 'All')[] = ['All', 'BBC News', 'TED Talk', 'Interview', 'Life Vlog', 'Daily'];
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="min-h-screen bg-slate-950 font-sans selection:bg-indigo-500/30 selection:text-indigo-200">
       
       {globalError && (
         <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[60] bg-red-600 text-white px-6 py-3 rounded-full shadow-2xl flex items-center gap-3 animate-in slide-in-from-top-4">
           <AlertCircle size={20} />
-          <span className="text-sm font-bold">{globalError}</span>
+          <span className="text-sm font-bold">{t(globalError)}</span>
         </div>
       )}
 
       {activeDialogue ? (
         <div className="fixed inset-0 z-50 bg-slate-950 animate-in fade-in slide-in-from-bottom-4 duration-300">
-          <DialogueCard dialogue={activeDialogue} onStateChange={setAppState} onBack={() => setActiveDialogue(null)} />
+          <DialogueCard dialogue={activeDialogue} onStateChange={setAppState} onBack={() => setActiveDialogue(null)} onUpdate={handleUpdateDialogue} />
         </div>
       ) : (
         <div className="max-w-xl mx-auto min-h-screen flex flex-col relative pb-24">
           <header className="sticky top-0 z-40 bg-slate-950/95 backdrop-blur-xl pt-10 pb-2 px-6 border-b border-white/5">
              <div className="flex items-start justify-between mb-6">
                 <div>
-                   <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1">{todayDate}</p>
+                   <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-1 flex items-center gap-2">
+                     {todayDate}
+                     {streak.current > 0 && <span className={`flex items-center gap-0.5 ${streak.practisedToday ? 'text-orange-400' : 'text-slate-500'}`}><Flame size={11} /> {streak.current}</span>}
+                   </p>
                    <h1 className="text-3xl font-extrabold text-white tracking-tight">LinguaFlow</h1>
                 </div>
                 <div className="flex gap-2">
-                   {!hasInternalKey && (
-                     <button onClick={() => setShowKeyModal(true)} className="w-10 h-10 rounded-full bg-slate-800 border border-slate-700 text-slate-400 flex items-center justify-center hover:bg-slate-700 hover:text-white transition-all">
-                        <Key size={18} />
-                     </button>
-                   )}
+                   <button onClick={() => setShowVocabulary(true)} title={t('app.vocabulary')} className="w-10 h-10 rounded-full bg-slate-800 border border-slate-700 text-slate-400 flex items-center justify-center hover:bg-slate-700 hover:text-white transition-all">
+                      <BookMarked size={18} />
+                   </button>
+                   <button onClick={() => setShowProgress(true)} title={t('app.progress')} className="w-10 h-10 rounded-full bg-slate-800 border border-slate-700 text-slate-400 flex items-center justify-center hover:bg-slate-700 hover:text-white transition-all">
+                      <BarChart3 size={18} />
+                   </button>
+                   <button onClick={() => setShowKeyModal(true)} title={t('app.settings')} className="w-10 h-10 rounded-full bg-slate-800 border border-slate-700 text-slate-400 flex items-center justify-center hover:bg-slate-700 hover:text-white transition-all">
+                      {hasInternalKey ? <Settings size={18} /> : <Key size={18} />}
+                   </button>
                    <button onClick={handleLanguageToggle} className="w-10 h-10 rounded-full bg-slate-800 border border-slate-700 text-slate-400 font-bold text-xs flex items-center justify-center hover:bg-slate-700 hover:text-white transition-all">
-                     {language === 'en' ? '中' : 'EN'}
+                     {t('app.languageToggle')}
                    </button>
-                   <button onClick={() => setIsGeneratorOpen(true)} className="w-10 h-10 rounded-full bg-indigo-600 text-white flex items-center justify-center shadow-lg hover:bg-indigo-500 transition-all">
+                   <button onClick={() => setIsGeneratorOpen(true)} title={t('app.newContent')} className="w-10 h-10 rounded-full bg-indigo-600 text-white flex items-center justify-center shadow-lg hover:bg-indigo-500 transition-all">
                      <Plus size={20} />
                    </button>
                 </div>
              </div>
 
+             <div className="relative mb-4">
+                <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-500" />
+                <input value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder={t('app.searchPlaceholder')} className="w-full pl-11 pr-10 py-3 rounded-2xl bg-slate-900 border border-slate-800 text-sm text-white outline-none focus:border-indigo-500 transition-all placeholder:text-slate-600" />
+                {searchQuery && <button onClick={() => setSearchQuery('')} className="absolute right-3 top-1/2 -translate-y-1/2 p-1 text-slate-500 hover:text-white"><X size={14} /></button>}
+             </div>
+
              <div className="flex gap-3 overflow-x-auto no-scrollbar pb-4 -mx-6 px-6 mask-linear-fade">
+               <button onClick={() => setShowDueOnly(!showDueOnly)} className={`whitespace-nowrap px-5 py-2.5 rounded-full text-xs font-bold uppercase tracking-wider transition-all flex items-center gap-2 ${showDueOnly ? 'bg-amber-400 text-slate-900 shadow-lg scale-105' : 'bg-amber-900/20 text-amber-400 border border-amber-500/30 hover:bg-amber-900/40'}`}>
+                 <CalendarClock size={14} /> {t('app.dueToday')}
+                 <span className={`min-w-[1.25rem] h-5 px-1 rounded-full text-[10px] flex items-center justify-center ${showDueOnly ? 'bg-slate-900 text-amber-400' : 'bg-amber-500/20'}`}>{dueIds.length}</span>
+               </button>
                {categories.map(cat => (
-                 <button key={cat} onClick={() => setActiveCategory(cat)} className={`whitespace-nowrap px-5 py-2.5 rounded-full text-xs font-bold uppercase tracking-wider transition-all flex items-center gap-2 ${activeCategory === cat ? 'bg-white text-slate-900 shadow-lg scale-105' : 'bg-slate-900 text-slate-400 border border-slate-800 hover:bg-slate-800'}`}>
+                 <button key={cat} onClick={() => { setActiveCategory(cat); setShowDueOnly(false); }} className={`whitespace-nowrap px-5 py-2.5 rounded-full text-xs font-bold uppercase tracking-wider transition-all flex items-center gap-2 ${!showDueOnly && activeCategory === cat ? 'bg-white text-slate-900 shadow-lg scale-105' : 'bg-slate-900 text-slate-400 border border-slate-800 hover:bg-slate-800'}`}>
                    {cat !== 'All' && getCategoryIcon(cat)}
-                   {cat}
+                   {t(`category.${cat}`)}
                  </button>
                ))}
              </div>
@@ -167,21 +275,30 @@ const App: React.FC = () => {
                 <div className="flex items-center gap-2 bg-slate-900 border border-slate-800 rounded-lg px-3 py-1.5">
                    <Filter size={12} className="text-slate-500" />
                    <select value={difficultyFilter} onChange={(e) => setDifficultyFilter(e.target.value as DifficultyFilter)} className="bg-transparent text-xs font-bold text-slate-300 outline-none">
-                      <option value="All">Any Level</option>
-                      <option value="Beginner">Beginner</option>
-                      <option value="Intermediate">Intermediate</option>
-                      <option value="Advanced">Advanced</option>
+                      <option value="All">{t('app.anyLevel')}</option>
+                      <option value="Beginner">{t('difficulty.Beginner')}</option>
+                      <option value="Intermediate">{t('difficulty.Intermediate')}</option>
+                      <option value="Advanced">{t('difficulty.Advanced')}</option>
                    </select>
                 </div>
                 <div className="flex items-center gap-2 bg-slate-900 border border-slate-800 rounded-lg px-3 py-1.5">
                    <Clock size={12} className="text-slate-500" />
                    <select value={durationFilter} onChange={(e) => setDurationFilter(e.target.value as DurationFilter)} className="bg-transparent text-xs font-bold text-slate-300 outline-none">
-                      <option value="All">Any Time</option>
-                      <option value="< 3 min">&lt; 3 min</option>
-                      <option value="3-5 min">3-5 min</option>
-                      <option value="> 5 min">&gt; 5 min</option>
+                      <option value="All">{t('app.anyTime')}</option>
+                      <option value="< 3 min">{t('app.duration.short')}</option>
+                      <option value="3-5 min">{t('app.duration.medium')}</option>
+                      <option value="> 5 min">{t('app.duration.long')}</option>
                    </select>
                 </div>
+                {allTags.length > 0 && (
+                  <div className="flex items-center gap-2 bg-slate-900 border border-slate-800 rounded-lg px-3 py-1.5">
+                     <Tag size={12} className="text-slate-500" />
+                     <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className="bg-transparent text-xs font-bold text-slate-300 outline-none">
+                        <option value="All">{t('app.anyTag')}</option>
+                        {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                     </select>
+                  </div>
+                )}
              </div>
           </header>
 
@@ -196,39 +313,80 @@ const App: React.FC = () => {
                       </div>
                     )}
                     <div className="absolute inset-0 p-8 flex flex-col justify-between z-10">
-                       <span className="px-3 py-1 bg-slate-950/50 backdrop-blur-md rounded-full text-white text-[10px] font-bold uppercase tracking-wider border border-white/10 self-start flex items-center gap-1.5">
-                         {getCategoryIcon(d.category)} {d.category}
-                       </span>
+                       <div className="flex items-center gap-2">
+                         <div className="absolute top-6 right-6 flex gap-2">
+                           {[
+                             { icon: <Pencil size={14} />, label: t('app.edit'), action: () => setEditingDialogue(d) },
+                             { icon: <Copy size={14} />, label: t('app.duplicate'), action: () => handleDuplicate(d) },
+                             { icon: <Trash2 size={14} />, label: t('app.delete'), action: () => handleDelete(d) }
+                           ].map(({ icon, label, action }) => (
+                             <button key={label} title={label} onClick={(e) => { e.stopPropagation(); action(); }} className="w-8 h-8 rounded-full bg-slate-950/50 backdrop-blur-md border border-white/10 text-white/70 flex items-center justify-center hover:text-white hover:bg-slate-950/80 transition-all">{icon}</button>
+                           ))}
+                         </div>
+                         <span className="px-3 py-1 bg-slate-950/50 backdrop-blur-md rounded-full text-white text-[10px] font-bold uppercase tracking-wider border border-white/10 flex items-center gap-1.5">
+                           {getCategoryIcon(d.category)} {t(`category.${d.category}`)}
+                         </span>
+                         {dueIds.includes(d.id) && (
+                           <span className="px-3 py-1 bg-amber-400/90 rounded-full text-slate-900 text-[10px] font-bold uppercase tracking-wider flex items-center gap-1.5">
+                             <CalendarClock size={12} /> {t('app.review')}
+                           </span>
+                         )}
+                       </div>
                        <div className="space-y-6">
                           <div>
                              <h2 className="text-4xl font-black text-white leading-tight tracking-tight mb-3">{d.title}</h2>
                              <p className="text-white/80 text-sm font-medium line-clamp-2 leading-relaxed">{d.scenario}</p>
+                             {d.tags && d.tags.length > 0 && (
+                               <div className="flex flex-wrap gap-1.5 mt-3">
+                                 {d.tags.map(tag => (
+                                   <button key={tag} onClick={(e) => { e.stopPropagation(); setTagFilter(tag); setShowDueOnly(false); }} className="px-2 py-0.5 rounded-full bg-white/10 text-white/70 text-[10px] font-bold hover:bg-white/20">#{tag}</button>
+                                 ))}
+                               </div>
+                             )}
                           </div>
                           <div className="flex items-center justify-between pt-2 border-t border-white/10">
                              <div className="flex items-center gap-2 text-white/70 text-xs font-bold uppercase tracking-wider mt-4">
                                 <Clock size={14} /> <span>{d.duration}</span>
                              </div>
-                             <div className="w-14 h-14 rounded-full bg-white text-slate-950 flex items-center justify-center mt-2 group-hover:scale-110 transition-transform shadow-xl">
-                                <PlayCircle size={30} fill="currentColor" className="ml-0.5" />
+                             <div className="flex items-center gap-3 mt-2">
+                                <button onClick={(e) => { e.stopPropagation(); handleDownloadOffline(d); }} title={offlineIds.has(d.id) ? t('app.availableOffline') : t('app.downloadOffline')} className={`w-10 h-10 rounded-full flex items-center justify-center backdrop-blur-md border transition-all ${offlineIds.has(d.id) ? 'bg-emerald-500/20 border-emerald-400/40 text-emerald-300' : 'bg-slate-950/50 border-white/10 text-white/80 hover:text-white'}`}>
+                                   {downloadingIds.has(d.id) ? <Loader2 size={18} className="animate-spin" /> : offlineIds.has(d.id) ? <CheckCircle2 size={18} /> : <Download size={18} />}
+                                </button>
+                                <div className="w-14 h-14 rounded-full bg-white text-slate-950 flex items-center justify-center group-hover:scale-110 transition-transform shadow-xl">
+                                   <PlayCircle size={30} fill="currentColor" className="ml-0.5" />
+                                </div>
                              </div>
                           </div>
                        </div>
                     </div>
                  </div>
                ))
+             ) : searchQuery || tagFilter !== 'All' ? (
+               <div className="h-[240px] w-full rounded-[2.5rem] bg-slate-900 flex flex-col items-center justify-center text-center p-8 border-2 border-dashed border-slate-800">
+                  <Search size={36} className="text-slate-500 mb-4" />
+                  <h3 className="text-2xl font-black text-white mb-2">{t('app.noMatches')}</h3>
+                  <p className="text-slate-400 text-sm max-w-xs mb-4">{t('app.noMatchesBody')}</p>
+                  <button onClick={() => { setSearchQuery(''); setTagFilter('All'); }} className="px-5 py-2 rounded-full bg-slate-800 text-slate-300 text-xs font-bold hover:bg-slate-700">{t('app.clearSearch')}</button>
+               </div>
+             ) : showDueOnly ? (
+               <div className="h-[240px] w-full rounded-[2.5rem] bg-slate-900 flex flex-col items-center justify-center text-center p-8 border-2 border-dashed border-slate-800">
+                  <CalendarClock size={36} className="text-amber-400 mb-4" />
+                  <h3 className="text-2xl font-black text-white mb-2">{t('app.allCaughtUp')}</h3>
+                  <p className="text-slate-400 text-sm max-w-xs">{t('app.allCaughtUpBody')}</p>
+               </div>
              ) : (
                <div onClick={handleAutoGenerate} className="relative h-[420px] w-full rounded-[2.5rem] overflow-hidden cursor-pointer transition-all hover:scale-[1.02] bg-slate-900 group flex flex-col items-center justify-center text-center p-8 border-2 border-dashed border-slate-700">
                   {isAutoGenerating ? (
                     <div className="flex flex-col items-center gap-4">
                       <Loader2 size={48} className="text-indigo-400 animate-spin" />
-                      <h3 className="text-2xl font-bold text-white">Generating...</h3>
+                      <h3 className="text-2xl font-bold text-white">{t('app.generating')}</h3>
                     </div>
                   ) : (
                     <>
                       <div className="w-20 h-20 rounded-full bg-indigo-900/30 text-indigo-400 flex items-center justify-center mb-6"><Wand2 size={36} /></div>
-                      <h3 className="text-3xl font-black text-white mb-3">AI Auto-Fill</h3>
-                      <p className="text-slate-400 text-sm max-w-xs mb-6">Tap to instantly generate a lesson for this category.</p>
-                      <div className="px-6 py-3 rounded-full bg-indigo-600 text-white font-bold text-sm shadow-lg flex items-center gap-2"><RefreshCw size={16} /> Generate Now</div>
+                      <h3 className="text-3xl font-black text-white mb-3">{t('app.autoFill')}</h3>
+                      <p className="text-slate-400 text-sm max-w-xs mb-6">{t('app.autoFillBody')}</p>
+                      <div className="px-6 py-3 rounded-full bg-indigo-600 text-white font-bold text-sm shadow-lg flex items-center gap-2"><RefreshCw size={16} /> {t('app.generateNow')}</div>
                     </>
                   )}
                </div>
@@ -237,35 +395,22 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {isGeneratorOpen && <ContentGenerator onClose={() => setIsGeneratorOpen(false)} onGenerate={handleNewDialogue} />}
-
-      {/* API Key Modal */}
-      {showKeyModal && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
-          <div className="bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-800 shadow-2xl animate-in zoom-in-95">
-             <div className="flex items-center gap-3 mb-6">
-                <div className="p-3 rounded-2xl bg-indigo-600 text-white shadow-lg shadow-indigo-900/40"><Key size={24} /></div>
-                <h2 className="text-2xl font-black text-white">API Key Needed</h2>
-             </div>
-             <p className="text-slate-400 text-sm mb-6 leading-relaxed">
-               This app is deployed on GitHub Pages. To use AI features, please provide your <b>Google Gemini API Key</b>. 
-               It will be saved locally in your browser.
-             </p>
-             <input 
-               type="password" 
-               value={tempKey} 
-               onChange={(e) => setTempKey(e.target.value)}
-               placeholder="Enter your Gemini API Key..."
-               className="w-full p-4 rounded-xl bg-slate-950 border border-slate-800 text-white outline-none focus:border-indigo-500 transition-all mb-6"
-             />
-             <div className="flex gap-3">
-               <button onClick={saveApiKey} className="flex-1 py-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-500 transition-all">Save & Start</button>
-             </div>
-             <p className="text-[10px] text-slate-500 text-center mt-6 uppercase tracking-widest">Your key is never sent to any server except Google Gemini.</p>
-          </div>
+      {pendingDelete && !activeDialogue && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[60] bg-slate-800 border border-slate-700 text-white pl-6 pr-2 py-2 rounded-full shadow-2xl flex items-center gap-4 animate-in slide-in-from-bottom-4">
+          <span className="text-sm font-medium truncate max-w-[14rem]">{t('app.deleted', { title: pendingDelete.dialogue.title })}</span>
+          <button onClick={handleUndoDelete} className="px-4 py-2 rounded-full bg-indigo-600 text-xs font-bold flex items-center gap-1.5 hover:bg-indigo-500"><Undo2 size={14} /> {t('app.undo')}</button>
         </div>
       )}
+
+      {editingDialogue && <DialogueEditor dialogue={editingDialogue} onSave={handleSaveEdit} onClose={() => setEditingDialogue(null)} />}
+
+      {isGeneratorOpen && <ContentGenerator onClose={() => setIsGeneratorOpen(false)} onGenerate={handleNewDialogue} />}
+
+      {showProgress && <ProgressDashboard onClose={() => setShowProgress(false)} />}
+      {showVocabulary && <VocabularyNotebook onClose={() => setShowVocabulary(false)} />}
+      {showKeyModal && <SettingsModal hasInternalKey={hasInternalKey} onClose={() => setShowKeyModal(false)} />}
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Dialogue, LineTiming } from '../types';
+import { PCMPlayer, blobToAudioBuffer } from '../services/geminiService';
+import { getRecording, putRecording, deleteRecording } from '../services/audioCache';
+import { autoAlign, getRecordingTimings } from '../services/recordingAlignment';
+import { useI18n, MessageKey } from '../services/i18n';
+import { AudioLines, X, Upload, Play, Pause, Loader2, Wand2, Save, Trash2, ArrowRightToLine, ArrowLeftToLine, Volume2, AlertCircle } from 'lucide-react';
+
+interface AudioAlignmentEditorProps {
+  dialogue: Dialogue;
+  onSave: (dialogue: Dialogue) => void;
+  onClose: () => void;
+}
+
+const PEAK_BUCKETS = 600;
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+const computePeaks = (buffer: AudioBuffer): number[] => {
+  const data = buffer.getChannelData(0);
+  const size = Math.max(1, Math.floor(data.length / PEAK_BUCKETS));
+  const peaks: number[] = [];
+  for (let i = 0; i < data.length; i += size) {
+    let max = 0;
+    for (let j = i; j < Math.min(i + size, data.length); j++) max = Math.max(max, Math.abs(data[j]));
+    peaks.push(max);
+  }
+  return peaks;
+};
+
+export const AudioAlignmentEditor: React.FC<AudioAlignmentEditorProps> = ({ dialogue, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [upload, setUpload] = useState<File | null>(null);
+  const [name, setName] = useState(dialogue.recording?.name || '');
+  const [cues, setCues] = useState<LineTiming[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [playhead, setPlayhead] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(!!dialogue.recording);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const playerRef = useRef<PCMPlayer | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const peaks = useMemo(() => buffer ? computePeaks(buffer) : [], [buffer]);
+  const duration = buffer?.duration || 0;
+
+  useEffect(() => {
+    playerRef.current = new PCMPlayer();
+    if (dialogue.recording) {
+      getRecording(dialogue.id)
+        .then(blob => blob ? blobToAudioBuffer(blob) : null)
+        .then(decoded => {
+          if (decoded) applyBuffer(decoded, false);
+          else setError('alignment.missing');
+        })
+        .catch(() => setError('alignment.decodeAttachedFailed'))
+        .finally(() => setIsLoading(false));
+    }
+    return () => { playerRef.current?.stop(); playerRef.current = null; };
+  }, [dialogue.id]);
+
+  const applyBuffer = (decoded: AudioBuffer, fresh: boolean) => {
+    playerRef.current?.loadBuffer(decoded);
+    setBuffer(decoded); setPlayhead(0); setIsPlaying(false);
+    // A new file only keeps existing cues (e.g. from subtitles) when there are any; otherwise start from a guess.
+    const hasCues = dialogue.lines.some(l => l.cue);
+    setCues(fresh && !hasCues ? autoAlign(dialogue.lines, decoded) : getRecordingTimings(dialogue.lines, decoded.duration));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsLoading(true); setError(null);
+    try {
+      applyBuffer(await blobToAudioBuffer(file), true);
+      setUpload(file); setName(file.name);
+    } catch (e) { setError('alignment.decodeFailed'); } finally { setIsLoading(false); }
+  };
+
+  const handleProgress = (c: number) => setPlayhead(c);
+  const handleEnded = () => setIsPlaying(false);
+
+  const togglePlay = async () => {
+    const player = playerRef.current; if (!player || !buffer) return;
+    if (isPlaying) { player.pause(); setIsPlaying(false); return; }
+    player.seek(playhead);
+    await player.play(handleProgress, handleEnded);
+    setIsPlaying(true);
+  };
+
+  const playLine = async (index: number) => {
+    const player = playerRef.current; if (!player || !cues[index]) return;
+    setSelected(index); setIsPlaying(true);
+    await player.playSegment(cues[index], handleProgress, handleEnded);
+  };
+
+  const seek = (seconds: number) => {
+    const t = Math.max(0, Math.min(seconds, duration));
+    playerRef.current?.seek(t); setPlayhead(t);
+  };
+
+  // Moving one edge also pushes the neighbouring line's edge so ranges never overlap.
+  const setEdge = (edge: 'start' | 'end', time: number) => {
+    setCues(prev => prev.map((c, i) => {
+      if (i === selected) return edge === 'start' ? { start: Math.min(time, c.end - 0.05), end: c.end } : { start: c.start, end: Math.max(time, c.start + 0.05) };
+      if (edge === 'start' && i === selected - 1 && c.end > time) return { ...c, end: Math.max(c.start, time) };
+      if (edge === 'end' && i === selected + 1 && c.start < time) return { ...c, start: Math.min(c.end, time) };
+      return c;
+    }));
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    const ctx = canvas.getContext('2d'); if (!ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.parentElement?.clientWidth || 300;
+    const height = 96;
+    canvas.width = width * dpr; canvas.height = height * dpr;
+    canvas.style.width = `${width}px`; canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr); ctx.fillStyle = '#0f172a'; ctx.fillRect(0, 0, width, height);
+    if (!duration) return;
+    cues.forEach((c, i) => {
+      ctx.fillStyle = i === selected ? 'rgba(99, 102, 241, 0.35)' : i % 2 ? 'rgba(148, 163, 184, 0.08)' : 'rgba(148, 163, 184, 0.15)';
+      ctx.fillRect((c.start / duration) * width, 0, ((c.end - c.start) / duration) * width, height);
+    });
+    ctx.fillStyle = '#64748b';
+    const barWidth = width / peaks.length;
+    peaks.forEach((p, i) => { const h = Math.max(1, p * (height - 8)); ctx.fillRect(i * barWidth, (height - h) / 2, Math.max(1, barWidth - 0.5), h); });
+    ctx.fillStyle = '#f43f5e';
+    ctx.fillRect((playhead / duration) * width - 1, 0, 2, height);
+  }, [peaks, cues, selected, playhead, duration]);
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const t = ((e.clientX - rect.left) / rect.width) * duration;
+    seek(t);
+    const hit = cues.findIndex(c => t >= c.start && t < c.end);
+    if (hit >= 0) setSelected(hit);
+  };
+
+  const handleSave = async () => {
+    if (!buffer) return;
+    try {
+      if (upload) await putRecording(dialogue.id, upload, upload.name);
+    } catch (e) { setError('alignment.storeFailed'); return; }
+    onSave({
+      ...dialogue,
+      recording: { name, duration: buffer.duration },
+      lines: dialogue.lines.map((l, i) => ({ ...l, cue: cues[i] }))
+    });
+  };
+
+  // The cues were aligned to this clip, so they go with it; a later upload starts from a fresh auto-alignment.
+  const handleRemove = async () => {
+    await deleteRecording(dialogue.id);
+    onSave({ ...dialogue, recording: undefined, lines: dialogue.lines.map(({ cue, ...l }) => l) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-md">
+      <div className="bg-slate-900 w-full max-w-lg rounded-3xl border border-slate-800 shadow-2xl overflow-hidden animate-in zoom-in-95 flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <AudioLines className="text-indigo-400" size={20} /> {t('alignment.title')}
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><X /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <label className="w-full py-3 rounded-xl bg-slate-800 text-slate-300 font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-700 transition-all cursor-pointer">
+            {isLoading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} <span className="truncate max-w-[16rem]">{name || t('alignment.upload')}</span>
+            <input type="file" accept="audio/*" className="hidden" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+          </label>
+
+          {buffer && (
+            <>
+              <div className="space-y-2">
+                <div className="rounded-lg border border-slate-800 overflow-hidden"><canvas ref={canvasRef} onClick={handleCanvasClick} className="block cursor-crosshair" /></div>
+                <div className="flex items-center gap-2">
+                  <button onClick={togglePlay} className="w-10 h-10 rounded-full bg-indigo-600 text-white flex items-center justify-center">{isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-0.5" />}</button>
+                  <span className="text-xs font-mono text-slate-400">{formatSeconds(playhead)} / {formatSeconds(duration)}</span>
+                  <div className="flex-1"></div>
+                  <button onClick={() => setCues(autoAlign(dialogue.lines, buffer))} className="px-3 py-2 rounded-lg bg-slate-800 text-slate-300 text-xs font-bold flex items-center gap-1.5 hover:bg-slate-700"><Wand2 size={14} /> {t('alignment.autoAlign')}</button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('alignment.setEdges', { line: selected + 1 })}</label>
+                <div className="flex gap-2">
+                  <button onClick={() => setEdge('start', playhead)} className="flex-1 py-2 rounded-lg bg-slate-800 text-slate-300 text-xs font-bold flex items-center justify-center gap-1.5 hover:bg-slate-700"><ArrowRightToLine size={14} /> {t('alignment.start')}</button>
+                  <button onClick={() => setEdge('end', playhead)} className="flex-1 py-2 rounded-lg bg-slate-800 text-slate-300 text-xs font-bold flex items-center justify-center gap-1.5 hover:bg-slate-700"><ArrowLeftToLine size={14} /> {t('alignment.end')}</button>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                {dialogue.lines.map((l, i) => (
+                  <div key={i} onClick={() => { setSelected(i); if (cues[i]) seek(cues[i].start); }} className={`flex items-center gap-3 p-2.5 rounded-xl cursor-pointer border ${selected === i ? 'bg-indigo-500/10 border-indigo-500/40' : 'bg-slate-950 border-slate-800 hover:border-slate-700'}`}>
+                    <span className="text-[10px] font-bold text-slate-600 w-5">{i + 1}</span>
+                    <p className="flex-1 min-w-0 text-xs text-slate-300 truncate">{l.text}</p>
+                    {cues[i] && <span className="text-[10px] font-mono text-slate-500 shrink-0">{formatSeconds(cues[i].start)}–{formatSeconds(cues[i].end)}</span>}
+                    <button onClick={(e) => { e.stopPropagation(); playLine(i); }} className="p-1 text-slate-500 hover:text-indigo-400"><Volume2 size={14} /></button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-xl">
+              <p className="text-red-400 text-xs text-center font-medium flex items-center justify-center gap-2"><AlertCircle size={12} /> {t(error)}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-800 flex gap-3">
+          {dialogue.recording && (
+            <button onClick={handleRemove} title={t('alignment.remove')} className="py-4 px-5 rounded-xl bg-slate-800 text-slate-400 font-bold hover:text-red-400 transition-all"><Trash2 size={18} /></button>
+          )}
+          <button onClick={handleSave} disabled={!buffer} className="flex-1 py-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-500 transition-all flex items-center justify-center gap-2 disabled:opacity-50">
+            <Save size={18} /> {t('alignment.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,6 @@
+import React from 'react';
+
+// Blanks out every third longer word; the word stays in the DOM (transparent) so the gap keeps its width.
+export const ClozeText: React.FC<{ text: string }> = ({ text }) => (
+  <span>{text.split(/(\s+)/).map((p, i) => p.trim() === '' ? p : (p.replace(/[.,!?;:"()]/g, '').length > 3 && i % 3 === 0 ? <span key={i} className="inline-block min-w-[3ch] border-b-2 border-indigo-700 text-transparent bg-indigo-900/30 rounded px-1 mx-0.5">{p}</span> : <span key={i}>{p}</span>))}</span>
+);
@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { generateStudyMaterial } from '../services/geminiService';
+import { parseImport, cutReciteChunk, buildImportedDialogue, countWords, formatTimestamp, RECITE_CHUNK_WORDS } from '../services/transcriptParser';
+import { ModelResponseError } from '../services/responseValidation';
+import { useI18n, MessageKey } from '../services/i18n';
 import { Dialogue } from '../types';
-import { Wand2, Loader2, X, Plus, Star, Zap } from 'lucide-react';
+import { Wand2, Loader2, X, Plus, Star, Zap, FileText, Upload, Scissors, Sparkles } from 'lucide-react';
 
 interface ContentGeneratorProps {
   onClose: () => void;
@@ -9,9 +12,58 @@ interface ContentGeneratorProps {
 }
 
 export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ onClose, onGenerate }) => {
+  const { t } = useI18n();
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [tab, setTab] = useState<'topic' | 'import'>('topic');
+  const [importText, setImportText] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [importTitle, setImportTitle] = useState('');
+  const [keepTimestamps, setKeepTimestamps] = useState(true);
+  const [chunkStart, setChunkStart] = useState<number | null>(null);
+
+  const parsed = useMemo(() => importText.trim() ? parseImport(importText, fileName) : null, [importText, fileName]);
+  const hasCues = !!parsed?.lines.some(l => l.cue);
+  const chunkEnd = parsed && chunkStart !== null ? cutReciteChunk(parsed.lines, chunkStart) : null;
+  const selectedLines = parsed ? (chunkStart !== null ? parsed.lines.slice(chunkStart, chunkEnd!) : parsed.lines) : [];
+  const selectedWords = selectedLines.reduce((sum, l) => sum + countWords(l.text), 0);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setImportText(await file.text());
+    setImportTitle(prev => prev || file.name.replace(/\.[^.]+$/, '').replace(/[._-]+/g, ' '));
+    setChunkStart(null);
+  };
+
+  const handleLocalImport = () => {
+    if (selectedLines.length === 0) return;
+    const firstCue = keepTimestamps ? selectedLines[0].cue : undefined;
+    const scenario = firstCue
+      ? t('generator.importedScenarioFrom', { lines: selectedLines.length, time: formatTimestamp(firstCue.start) })
+      : t('generator.importedScenario', { lines: selectedLines.length });
+    onGenerate(buildImportedDialogue(selectedLines, importTitle.trim() || t('generator.importedTitle'), scenario, keepTimestamps));
+    onClose();
+  };
+
+  // Lets the model re-assign speakers for unlabelled prose; the wording itself is kept. Plain text only
+  // carries the placeholder narrator, so its lines go over without a speaker label.
+  const handleAiImport = async () => {
+    if (!parsed || selectedLines.length === 0) return;
+    const labelled = parsed.format !== 'text';
+    setLoading(true);
+    setError(null);
+    try {
+      const dialogue = await generateStudyMaterial(selectedLines.map(l => labelled && l.speaker ? `${l.speaker}: ${l.text}` : l.text).join('\n'), 'text', 'Intermediate', 'dialogue');
+      onGenerate({ ...dialogue, title: importTitle.trim() || dialogue.title, tags: ['imported'] });
+      onClose();
+    } catch (err: any) {
+      setError(err.message === "MISSING_API_KEY" ? 'generator.errorMissingKey' : err instanceof ModelResponseError ? 'generator.errorBadReplyImport' : 'generator.errorFailedImport');
+    } finally {
+      setLoading(false);
+    }
+  };
 
   const handleGenerate = async (overrideInput?: string) => {
     const finalInput = overrideInput || input;
@@ -24,7 +76,7 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ onClose, onG
       onGenerate(dialogue);
       onClose();
     } catch (err: any) {
-      setError(err.message === "MISSING_API_KEY" ? "请先在主页设置 API Key" : "生成失败，请稍后重试");
+      setError(err.message === "MISSING_API_KEY" ? 'generator.errorMissingKey' : err instanceof ModelResponseError ? 'generator.errorBadReply' : 'generator.errorFailed');
     } finally {
       setLoading(false);
     }
@@ -35,14 +87,88 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ onClose, onG
       <div className="bg-slate-900 w-full max-w-lg rounded-3xl border border-slate-800 shadow-2xl overflow-hidden animate-in zoom-in-95">
         <div className="p-6 border-b border-slate-800 flex justify-between items-center">
           <h2 className="text-xl font-bold text-white flex items-center gap-2">
-            <Wand2 className="text-indigo-400" size={20} /> 内容生成器
+            <Wand2 className="text-indigo-400" size={20} /> {t('generator.title')}
           </h2>
           <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><X /></button>
         </div>
 
+        <div className="px-6 pt-6">
+          <div className="flex gap-1 bg-slate-950 rounded-xl p-1 border border-slate-800">
+            <button onClick={() => setTab('topic')} className={`flex-1 text-xs font-bold py-2 rounded-lg flex items-center justify-center gap-1.5 ${tab === 'topic' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}><Wand2 size={14} /> {t('generator.tabTopic')}</button>
+            <button onClick={() => setTab('import')} className={`flex-1 text-xs font-bold py-2 rounded-lg flex items-center justify-center gap-1.5 ${tab === 'import' ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}><FileText size={14} /> {t('generator.tabImport')}</button>
+          </div>
+        </div>
+
+        {tab === 'import' ? (
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          <div className="space-y-3">
+             <textarea
+                value={importText}
+                onChange={(e) => { setImportText(e.target.value); setFileName(''); setChunkStart(null); }}
+                rows={6}
+                placeholder={t('generator.importPlaceholder')}
+                className="w-full p-4 bg-slate-950 text-white rounded-2xl border border-slate-800 focus:border-indigo-500 outline-none text-sm transition-all placeholder:text-slate-600 resize-none"
+             />
+             <label className="w-full py-3 rounded-xl bg-slate-800 text-slate-300 font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-700 transition-all cursor-pointer">
+               <Upload size={16} /> {fileName || t('generator.chooseFile')}
+               <input type="file" accept=".srt,.vtt,.txt,text/plain,text/vtt" className="hidden" onChange={(e) => { handleFile(e.target.files?.[0]); e.target.value = ''; }} />
+             </label>
+          </div>
+
+          {parsed && (
+            <div className="bg-slate-950 border border-slate-800 rounded-2xl p-4 space-y-4">
+              <p className="text-sm text-slate-300">
+                <span className="px-2 py-0.5 rounded bg-indigo-500/20 text-indigo-300 text-[10px] font-bold uppercase mr-2">{parsed.format}</span>
+                {t('generator.parsedSummary', { lines: parsed.lines.length, words: parsed.wordCount })}
+              </p>
+              <input value={importTitle} onChange={(e) => setImportTitle(e.target.value)} placeholder={t('generator.titlePlaceholder')} className="w-full p-3 rounded-xl bg-slate-900 border border-slate-800 text-sm text-white outline-none focus:border-indigo-500 placeholder:text-slate-600" />
+              {hasCues && (
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                  <input type="checkbox" checked={keepTimestamps} onChange={(e) => setKeepTimestamps(e.target.checked)} className="accent-indigo-500" /> {t('generator.keepTimestamps')}
+                </label>
+              )}
+              {parsed.wordCount > RECITE_CHUNK_WORDS.MAX && (
+                <div className="space-y-2">
+                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-1.5"><Scissors size={12} /> {t('generator.chunkLabel', { min: RECITE_CHUNK_WORDS.MIN, max: RECITE_CHUNK_WORDS.MAX })}</label>
+                  <select value={chunkStart ?? ''} onChange={(e) => setChunkStart(e.target.value === '' ? null : Number(e.target.value))} className="w-full p-3 rounded-xl bg-slate-900 border border-slate-800 text-sm text-slate-300 outline-none">
+                    <option value="">{t('generator.importAll')}</option>
+                    {parsed.lines.map((l, i) => (
+                      <option key={i} value={i}>{t('generator.chunkOption', { line: i + 1 })}{l.cue ? ` [${formatTimestamp(l.cue.start)}]` : ''} · {l.text.slice(0, 40)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="max-h-40 overflow-y-auto space-y-1.5 pr-1">
+                {selectedLines.map((l, i) => (
+                  <p key={i} className="text-xs text-slate-400 leading-relaxed">
+                    {l.cue && <span className="text-slate-600 font-mono mr-1.5">{formatTimestamp(l.cue.start)}</span>}
+                    <b className="text-indigo-400">{l.speaker}:</b> {l.text}
+                  </p>
+                ))}
+              </div>
+              {chunkStart !== null && <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('generator.selectedSummary', { lines: selectedLines.length, words: selectedWords })}</p>}
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button onClick={handleLocalImport} disabled={!parsed || selectedLines.length === 0 || loading} className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-indigo-500 transition-all disabled:opacity-50">
+              <Plus size={18} /> {t('generator.importDirect')}
+            </button>
+            <button onClick={handleAiImport} disabled={!parsed || selectedLines.length === 0 || loading} className="flex-1 py-4 bg-slate-800 text-slate-300 rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-slate-700 transition-all disabled:opacity-50">
+              {loading ? <Loader2 className="animate-spin" size={18} /> : <Sparkles size={18} />} {t('generator.importAi')}
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-xl">
+               <p className="text-red-400 text-xs text-center font-medium">{t(error)}</p>
+            </div>
+          )}
+        </div>
+        ) : (
         <div className="p-6 space-y-6">
           <div className="space-y-3">
-             <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">快速启动</label>
+             <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('generator.quickStart')}</label>
              <button 
                 onClick={() => handleGenerate('Daily Recite: Master & Recite')}
                 disabled={loading}
@@ -53,8 +179,8 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ onClose, onG
                       <Star size={20} fill="currentColor" className="text-yellow-300" />
                    </div>
                    <div className="text-left">
-                      <p className="text-sm">50-70词 精准背诵模式</p>
-                      <p className="text-[10px] opacity-80 font-normal">生成 2-3 段极简生活对话，适合精准背诵</p>
+                      <p className="text-sm">{t('generator.dailyRecite')}</p>
+                      <p className="text-[10px] opacity-80 font-normal">{t('generator.dailyReciteBody')}</p>
                    </div>
                 </div>
                 {loading ? <Loader2 size={18} className="animate-spin" /> : <Zap size={18} className="text-yellow-300" />}
@@ -63,14 +189,14 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ onClose, onG
 
           <div className="relative flex items-center justify-center">
              <div className="absolute inset-x-0 h-px bg-slate-800"></div>
-             <span className="relative bg-slate-900 px-4 text-[10px] font-bold text-slate-600 uppercase tracking-tighter">或者自定义话题</span>
+             <span className="relative bg-slate-900 px-4 text-[10px] font-bold text-slate-600 uppercase tracking-tighter">{t('generator.orCustom')}</span>
           </div>
 
           <div className="space-y-3">
              <input 
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
-                placeholder="例如：在咖啡馆、面试自我介绍..."
+                placeholder={t('generator.topicPlaceholder')}
                 className="w-full p-4 bg-slate-950 text-white rounded-2xl border border-slate-800 focus:border-indigo-500 outline-none text-sm transition-all placeholder:text-slate-600"
              />
              <button 
@@ -79,16 +205,17 @@ export const ContentGenerator: React.FC<ContentGeneratorProps> = ({ onClose, onG
                className="w-full py-4 bg-slate-800 text-slate-300 rounded-2xl font-bold flex items-center justify-center gap-2 hover:bg-slate-700 transition-all disabled:opacity-50"
              >
                {loading ? <Loader2 className="animate-spin" size={18} /> : <Plus size={18} />}
-               生成自定义话题
+               {t('generator.generateCustom')}
              </button>
           </div>
 
           {error && (
             <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-xl">
-               <p className="text-red-400 text-xs text-center font-medium">{error}</p>
+               <p className="text-red-400 text-xs text-center font-medium">{t(error)}</p>
             </div>
           )}
         </div>
+        )}
       </div>
     </div>
   );
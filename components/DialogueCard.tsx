@@ -1,17 +1,49 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Dialogue, AppState, FeedbackResult } from '../types';
-import { fetchTtsAudio, PCMPlayer, analyzeRecitation, getWordDefinition, blobToAudioBuffer, rawPcmToAudioBuffer, getSharedAudioContext } from '../services/geminiService';
-import { Mic, Play, Loader2, AlertCircle, Ear, PenTool, Check, RotateCcw, BookOpen, Eye, EyeOff, Pause, Square, ChevronLeft, Volume2, Search, X, Grid2X2, Activity, RefreshCw, CheckCircle2, Hash, Award, Lightbulb, MessageSquareQuote } from 'lucide-react';
-import { STORAGE_KEYS } from '../constants';
+import { Dialogue, DialogueLine, AppState, FeedbackResult, LineFeedback, LineTiming, WordPronunciation, ProsodyReport, PlaybackBookmark, VisibilityMode } from '../types';
+import { fetchDialogueAudio, PCMPlayer, analyzeRecitation, getWordDefinition, translateLines, blobToAudioBuffer, rawPcmToAudioBuffer, getSharedAudioContext } from '../services/geminiService';
+import { Mic, Play, Loader2, AlertCircle, Ear, PenTool, Check, RotateCcw, BookOpen, Eye, EyeOff, Pause, Square, ChevronLeft, Volume2, Search, X, Grid2X2, Activity, RefreshCw, CheckCircle2, Hash, Award, Lightbulb, MessageSquareQuote, Repeat, Repeat2, Users, Wand2, AudioLines, Languages, Bookmark, BookmarkCheck, BookmarkPlus, MessagesSquare } from 'lucide-react';
+import { STORAGE_KEYS, TTS_VOICES } from '../constants';
+import { autoCast, getSpeakers, isCastComplete } from '../services/voiceCasting';
+import { MicRecorder } from '../services/audioRecorder';
+import { ShadowingPanel } from './ShadowingPanel';
+import { ProsodyComparison } from './ProsodyComparison';
+import { PitchContourVisualizer } from './PitchContourVisualizer';
+import { AudioAlignmentEditor } from './AudioAlignmentEditor';
+import { TranslateBackPanel } from './TranslateBackPanel';
+import { compareProsody } from '../services/prosodyAnalysis';
+import { recordReview, loadReviewSchedule, getDueLineIndices } from '../services/reviewScheduler';
+import { getRecording } from '../services/audioCache';
+import { getRecordingTimings } from '../services/recordingAlignment';
+import { ModelResponseError } from '../services/responseValidation';
+import { isAbortError, RequestTimeoutError } from '../services/requestManager';
+import { logPractice, MIN_LISTENING_MS } from '../services/practiceLog';
+import { getDictationDiff, getLineScores } from '../services/dictationDiff';
+import { DiffTokens, scoreBadgeClass } from './DiffTokens';
+import { LineDictationPanel } from './LineDictationPanel';
+import { RolePlayPanel } from './RolePlayPanel';
+import { SpeedControl } from './SpeedControl';
+import { ClozeText } from './ClozeText';
+import { loadVocabulary, findVocabEntry, addVocabEntry, removeVocabEntry } from '../services/vocabulary';
+import { useI18n, MessageKey } from '../services/i18n';
 
 interface DialogueCardProps {
   dialogue: Dialogue;
   onStateChange: (state: AppState) => void;
   onBack?: () => void;
+  onUpdate?: (dialogue: Dialogue) => void;
 }
 
-type LearningStep = 'blind' | 'dictation' | 'read' | 'recite';
-type VisibilityMode = 'visible' | 'cloze' | 'hidden';
+type LearningStep = 'blind' | 'dictation' | 'read' | 'shadow' | 'recite' | 'translate' | 'roleplay';
+type DictationMode = 'full' | 'line';
+
+// A and B are positions in seconds; the loop only runs while active, so it can be toggled without losing the points.
+interface AbLoop {
+  start: number | null;
+  end: number | null;
+  active: boolean;
+}
+
+const NO_AB_LOOP: AbLoop = { start: null, end: null, active: false };
 
 const formatTime = (seconds: number) => {
   if (isNaN(seconds) || seconds < 0) return "0:00";
@@ -20,47 +52,17 @@ const formatTime = (seconds: number) => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
-interface DiffToken {
-  text: string;
-  status: 'correct' | 'incorrect' | 'missing' | 'extra';
-  expected?: string;
-}
-
-const getDictationDiff = (userText: string, masterText: string): { tokens: DiffToken[], score: number } => {
-  const normalize = (s: string) => s.toLowerCase().replace(/[.,!?;:"()]/g, '').trim();
-  const masterWords = masterText.split(/\s+/).filter(Boolean);
-  const userWords = userText.split(/\s+/).filter(Boolean);
-  const tokens: DiffToken[] = [];
-  let masterIdx = 0;
-  let userIdx = 0;
-  let correctCount = 0;
-
-  while (masterIdx < masterWords.length || userIdx < userWords.length) {
-    const masterWord = masterWords[masterIdx];
-    const userWord = userWords[userIdx];
-    if (masterWord && userWord && normalize(masterWord) === normalize(userWord)) {
-      tokens.push({ text: userWord, status: 'correct' });
-      masterIdx++; userIdx++; correctCount++;
-    } else if (masterWord && userWord) {
-      const nextUserWord = userWords[userIdx + 1];
-      const nextMasterWord = masterWords[masterIdx + 1];
-      if (nextUserWord && normalize(masterWord) === normalize(nextUserWord)) {
-        tokens.push({ text: userWord, status: 'extra' }); userIdx++;
-      } else if (nextMasterWord && normalize(nextMasterWord) === normalize(userWord)) {
-        tokens.push({ text: '', status: 'missing', expected: masterWord }); masterIdx++;
-      } else {
-        tokens.push({ text: userWord, status: 'incorrect', expected: masterWord }); masterIdx++; userIdx++;
-      }
-    } else if (masterWord) {
-      tokens.push({ text: '', status: 'missing', expected: masterWord }); masterIdx++;
-    } else if (userWord) {
-      tokens.push({ text: userWord, status: 'extra' }); userIdx++;
-    }
-  }
-  return { tokens, score: Math.round((correctCount / Math.max(1, masterWords.length)) * 100) };
+// Lines the model failed to align are scored 0 so they come back for review soonest.
+const getRecitationLineScores = (feedback: FeedbackResult, lineCount: number): number[] | undefined => {
+  if (!feedback.lines?.length) return undefined;
+  return Array.from({ length: lineCount }, (_, i) => feedback.lines!.find(l => l.lineIndex === i)?.score ?? 0);
 };
 
+const heatmapClass = (score: number) =>
+  score >= 85 ? 'bg-emerald-500/10 text-emerald-300' : score >= 60 ? 'bg-amber-500/15 text-amber-300' : 'bg-red-500/15 text-red-300';
+
 const WaveformVisualizer: React.FC<{ buffer: AudioBuffer | null, color: string, label: string, height?: number }> = ({ buffer, color, label, height = 64 }) => {
+  const { t } = useI18n();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   useEffect(() => {
     const canvas = canvasRef.current; if (!canvas || !buffer) return;
@@ -86,7 +88,7 @@ const WaveformVisualizer: React.FC<{ buffer: AudioBuffer | null, color: string,
   }, [buffer, color, height]);
   return !buffer ? (
     <div className="w-full bg-slate-900 border border-dashed border-slate-800 rounded-lg flex items-center justify-center" style={{ height: `${height}px` }}>
-      <span className="text-xs text-slate-500 font-medium">No audio data</span>
+      <span className="text-xs text-slate-500 font-medium">{t('card.noAudio')}</span>
     </div>
   ) : (
     <div className="relative overflow-x-auto no-scrollbar rounded-lg border border-slate-800 bg-slate-900">
@@ -96,119 +98,388 @@ const WaveformVisualizer: React.FC<{ buffer: AudioBuffer | null, color: string,
   );
 };
 
-export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateChange, onBack }) => {
+export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateChange, onBack, onUpdate }) => {
+  const { t, language } = useI18n();
   const [step, setStep] = useState<LearningStep>('blind');
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [feedback, setFeedback] = useState<FeedbackResult | null>(null);
-  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [playbackError, setPlaybackError] = useState<MessageKey | null>(null);
+  const [analysisError, setAnalysisError] = useState<MessageKey | null>(null);
   const [audioProgress, setAudioProgress] = useState(0); 
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
   const pcmPlayer = useRef<PCMPlayer | null>(null);
   const [referenceAudioBuffer, setReferenceAudioBuffer] = useState<AudioBuffer | null>(null);
   const [userAudioBuffer, setUserAudioBuffer] = useState<AudioBuffer | null>(null);
-  const [cachedRawPcm, setCachedRawPcm] = useState<Uint8Array | null>(null);
+  const [prosodyReport, setProsodyReport] = useState<ProsodyReport | null>(null);
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
+  const [lineTimings, setLineTimings] = useState<LineTiming[]>([]);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [loopingLine, setLoopingLine] = useState<number | null>(null);
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  // A new playback speed is rendered in the background; until it is ready the play buttons show the same spinner as loading.
+  const [isStretching, setIsStretching] = useState(false);
   const [userDictation, setUserDictation] = useState('');
   const [showDictationResult, setShowDictationResult] = useState(false);
+  const [dictationMode, setDictationMode] = useState<DictationMode>('full');
+  const [abLoop, setAbLoop] = useState<AbLoop>(NO_AB_LOOP);
+  const [bookmarks, setBookmarks] = useState<PlaybackBookmark[]>([]);
+  const [bookmarkName, setBookmarkName] = useState('');
   const [visibilityMode, setVisibilityMode] = useState<VisibilityMode>('hidden');
-  const [selectedWord, setSelectedWord] = useState<{ word: string, context: string, definition?: string } | null>(null);
+  const [selectedWord, setSelectedWord] = useState<{ word: string, context: string, definition?: string, lookupFailed?: boolean, pronunciation?: WordPronunciation, savedId?: string } | null>(null);
   const [isDefining, setIsDefining] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+  const [showCasting, setShowCasting] = useState(false);
+  const [showAlignment, setShowAlignment] = useState(false);
+  const [shownTranslations, setShownTranslations] = useState<Set<number>>(new Set());
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [translationError, setTranslationError] = useState<MessageKey | null>(null);
+  const recorderRef = useRef(new MicRecorder());
+  // Aborted when the card closes or switches dialogue, cancelling any AI calls still in flight for it.
+  const requestsRef = useRef(new AbortController());
+  // Start times for the practice log: the current step (dictation), the open listening stretch and the current recording.
+  const stepStartedRef = useRef(Date.now());
+  const listeningStartedRef = useRef<number | null>(null);
+  const recordingStartedRef = useRef(0);
   const activeLineRef = useRef<HTMLDivElement>(null);
+  // Lets replies that arrive after an await merge into the dialogue as it is now, not as it was when they were requested.
+  const dialogueRef = useRef(dialogue);
+  dialogueRef.current = dialogue;
   const sessionKey = `${STORAGE_KEYS.SESSION_PREFIX}${dialogue.id}`;
+  // The lines are English, so translations only make sense for learners using another interface language.
+  const canTranslate = language !== 'en';
+  const canRolePlay = useMemo(() => getSpeakers(dialogue.lines).length > 1, [dialogue.lines]);
+  const untranslated = useMemo(() => dialogue.lines.map((l, i) => !l.translations?.[language] ? i : -1).filter(i => i >= 0), [dialogue.lines, language]);
+  const hasTranslations = untranslated.length === 0;
 
   const masterText = useMemo(() => dialogue.lines.map(l => l.text).join(' '), [dialogue]);
+  const effectiveCast = useMemo(() => autoCast(dialogue.lines, dialogue.cast), [dialogue.lines, dialogue.cast]);
   const wordCount = useMemo(() => masterText.split(/\s+/).filter(Boolean).length, [masterText]);
   const dictationResult = useMemo(() => showDictationResult ? getDictationDiff(userDictation, masterText) : null, [showDictationResult, userDictation, masterText]);
+  const dictationLines = useMemo(() => dictationResult ? getLineScores(dictationResult.words, dialogue.lines) : [], [dictationResult, dialogue.lines]);
+  const lineFeedback = useMemo(() => {
+    const byIndex: Record<number, LineFeedback> = {};
+    feedback?.lines?.forEach(l => { byIndex[l.lineIndex] = l; });
+    return byIndex;
+  }, [feedback]);
+  const wordScores = useMemo(() => {
+    const byLine: Record<number, Record<number, WordPronunciation>> = {};
+    feedback?.words?.forEach(w => { (byLine[w.lineIndex] ||= {})[w.wordIndex] = w; });
+    return byLine;
+  }, [feedback]);
+  const [dueLines, setDueLines] = useState<number[]>(() => getDueLineIndices(loadReviewSchedule()[dialogue.id]));
 
   useEffect(() => {
     try {
       const saved = localStorage.getItem(sessionKey);
       if (saved) {
         const data = JSON.parse(saved);
-        if (data.step) setStep(data.step);
+        if (data.step && (data.step !== 'translate' || canTranslate) && (data.step !== 'roleplay' || canRolePlay)) setStep(data.step);
         if (data.userDictation) setUserDictation(data.userDictation);
         if (data.visibilityMode) setVisibilityMode(data.visibilityMode);
+        if (data.dictationMode) setDictationMode(data.dictationMode);
+        if (Array.isArray(data.bookmarks)) setBookmarks(data.bookmarks);
       }
     } catch (e) {}
     pcmPlayer.current = new PCMPlayer();
-    return () => { pcmPlayer.current?.stop(); pcmPlayer.current = null; };
+    pcmPlayer.current.onRenderingChange = setIsStretching;
+    const requests = new AbortController();
+    requestsRef.current = requests;
+    return () => { finishListening(); pcmPlayer.current?.stop(); pcmPlayer.current = null; setIsStretching(false); recorderRef.current.cancel(); requests.abort(); };
   }, [dialogue.id, sessionKey]);
 
-  useEffect(() => { localStorage.setItem(sessionKey, JSON.stringify({ step, userDictation, visibilityMode, timestamp: Date.now() })); }, [step, userDictation, visibilityMode, sessionKey]);
+  useEffect(() => { localStorage.setItem(sessionKey, JSON.stringify({ step, userDictation, visibilityMode, dictationMode, bookmarks, timestamp: Date.now() })); }, [step, userDictation, visibilityMode, dictationMode, bookmarks, sessionKey]);
 
   useEffect(() => {
-    if (pcmPlayer.current) pcmPlayer.current.stop();
-    setAppState(AppState.IDLE); setIsPlaying(false); setAudioProgress(0); setPlaybackError(null); setShowDictationResult(false); setPlaybackSpeed(1.0); setFeedback(null);
+    finishListening(); stepStartedRef.current = Date.now();
+    if (pcmPlayer.current) { pcmPlayer.current.stop(); pcmPlayer.current.setLoopRange(null); pcmPlayer.current.setRate(1.0); }
+    setAppState(AppState.IDLE); setIsPlaying(false); setAudioProgress(0); setCurrentTime(0); setLoopingLine(null); setAbLoop(NO_AB_LOOP); setPlaybackError(null); setShowDictationResult(false); setPlaybackSpeed(1.0); setFeedback(null); setAnalysisError(null);
   }, [step]);
 
   useEffect(() => { onStateChange(appState); }, [appState, onStateChange]);
 
-  const loadAudioIfNeeded = async (): Promise<boolean> => {
-    if (cachedRawPcm && referenceAudioBuffer) return true;
+  useEffect(() => {
+    if (!referenceAudioBuffer || !userAudioBuffer) { setProsodyReport(null); return; }
+    // Deferred so the recording UI settles before the (synchronous) DTW pass runs.
+    const timer = setTimeout(() => { try { setProsodyReport(compareProsody(referenceAudioBuffer, userAudioBuffer)); } catch (e) { setProsodyReport(null); } }, 0);
+    return () => clearTimeout(timer);
+  }, [referenceAudioBuffer, userAudioBuffer]);
+
+  const loadAudioIfNeeded = async (): Promise<LineTiming[] | null> => {
+    if (referenceAudioBuffer) return lineTimings;
     setIsLoadingAudio(true); setPlaybackError(null);
     try {
-      const fullText = dialogue.lines.map(l => l.speaker && !['Narrator', 'Text', 'Article'].includes(l.speaker) ? `${l.speaker} says: ${l.text}` : l.text).join('. ');
-      const { rawPcm } = await fetchTtsAudio(fullText.trim() || "No content.");
-      setCachedRawPcm(rawPcm);
+      // An uploaded recording wins over TTS; if its file is missing on this device we fall back to generated speech.
+      const recording = dialogue.recording ? await getRecording(dialogue.id) : null;
+      if (recording) {
+        const buffer = await blobToAudioBuffer(recording);
+        const timings = getRecordingTimings(dialogue.lines, buffer.duration);
+        pcmPlayer.current?.loadBuffer(buffer);
+        setReferenceAudioBuffer(buffer); setLineTimings(timings);
+        return timings;
+      }
+      const cast = isCastComplete(dialogue) ? dialogue.cast! : effectiveCast;
+      if (cast !== dialogue.cast) onUpdate?.({ ...dialogue, cast });
+      const { rawPcm, timings } = await fetchDialogueAudio(dialogue.id, dialogue.lines, cast, requestsRef.current.signal);
+      setLineTimings(timings);
       const ctx = getSharedAudioContext();
       if (pcmPlayer.current) { pcmPlayer.current.load(rawPcm); setReferenceAudioBuffer(rawPcmToAudioBuffer(rawPcm, ctx)); }
-      return true;
-    } catch (e: any) { setPlaybackError("Failed to fetch audio."); return false; } finally { setIsLoadingAudio(false); }
+      return timings;
+    } catch (e: any) {
+      if (!isAbortError(e)) setPlaybackError(e instanceof RequestTimeoutError ? 'card.audioTimeout' : 'card.audioFailed');
+      return null;
+    } finally { setIsLoadingAudio(false); }
+  };
+
+  const startListening = () => { listeningStartedRef.current ??= Date.now(); };
+
+  const finishListening = () => {
+    const startedAt = listeningStartedRef.current;
+    listeningStartedRef.current = null;
+    if (startedAt !== null && Date.now() - startedAt >= MIN_LISTENING_MS) logPractice(dialogue, 'listening', startedAt);
   };
 
+  const handlePlaybackEnded = () => { setIsPlaying(false); setAppState(AppState.IDLE); finishListening(); };
+
+  const resetAudio = () => {
+    finishListening();
+    pcmPlayer.current?.stop(); pcmPlayer.current?.setLoopRange(null);
+    setReferenceAudioBuffer(null); setLineTimings([]);
+    setIsPlaying(false); setAudioProgress(0); setCurrentTime(0); setLoopingLine(null); setAbLoop(NO_AB_LOOP); setAppState(AppState.IDLE);
+  };
+
+  const updateCast = (cast: Record<string, string>) => {
+    onUpdate?.({ ...dialogue, cast });
+    resetAudio();
+  };
+
+  const openAlignment = () => { resetAudio(); setShowAlignment(true); };
+
+  const saveAlignment = (updated: Dialogue) => {
+    onUpdate?.(updated);
+    setShowAlignment(false);
+  };
+
+  const handleProgress = (c: number, d: number) => { setCurrentTime(c); setAudioProgress(d > 0 ? (c / d) * 100 : 0); };
+
+  const startPlayback = async () => {
+    setAppState(AppState.PLAYING_AUDIO); if (!await loadAudioIfNeeded()) { setAppState(AppState.IDLE); return; }
+    try {
+      await pcmPlayer.current?.play(handleProgress, handlePlaybackEnded, step === 'blind');
+      setIsPlaying(true); startListening();
+    } catch (err) { setAppState(AppState.IDLE); setIsPlaying(false); }
+  };
+
+  const changeSpeed = (rate: number) => { setPlaybackSpeed(rate); pcmPlayer.current?.setRate(rate); };
+
   const handlePlayToggle = async () => {
     const ctx = getSharedAudioContext(); if (ctx.state === 'suspended') await ctx.resume();
-    if (isPlaying) { pcmPlayer.current?.pause(); setIsPlaying(false); setAppState(AppState.IDLE); } else {
-      setAppState(AppState.PLAYING_AUDIO); if (!await loadAudioIfNeeded()) { setAppState(AppState.IDLE); return; }
-      try {
-        await pcmPlayer.current?.play((c, d) => setAudioProgress(d > 0 ? (c / d) * 100 : 0), () => { setIsPlaying(false); setAppState(AppState.IDLE); }, step === 'blind');
-        setIsPlaying(true);
-      } catch (err) { setAppState(AppState.IDLE); setIsPlaying(false); }
+    if (isPlaying) { pcmPlayer.current?.pause(); handlePlaybackEnded(); } else await startPlayback();
+  };
+
+  const applyAbLoop = (next: AbLoop) => {
+    setAbLoop(next);
+    const range = next.active && next.start !== null && next.end !== null ? { start: next.start, end: next.end } : null;
+    if (range) setLoopingLine(null);
+    pcmPlayer.current?.setLoopRange(range);
+  };
+
+  // Jumping outside a running loop (line or A-B) switches that loop off rather than snapping back into it.
+  const seekTo = async (time: number) => {
+    const timings = await loadAudioIfNeeded(); if (!timings) return;
+    const looped = loopingLine !== null ? timings[loopingLine] : null;
+    if (looped && (time < looped.start || time >= looped.end)) { pcmPlayer.current?.setLoopRange(null); setLoopingLine(null); }
+    if (abLoop.active && (time < abLoop.start! || time >= abLoop.end!)) applyAbLoop({ ...abLoop, active: false });
+    pcmPlayer.current?.seek(time); setCurrentTime(time);
+    if (!isPlaying) await startPlayback();
+  };
+
+  const seekToLine = async (index: number) => {
+    const timing = (await loadAudioIfNeeded())?.[index]; if (!timing) return;
+    await seekTo(timing.start);
+  };
+
+  const stepLine = (delta: number) => {
+    const from = activeLineIndex < 0 ? (delta > 0 ? -1 : 0) : activeLineIndex;
+    seekToLine(Math.max(0, Math.min(dialogue.lines.length - 1, from + delta)));
+  };
+
+  const rewind = () => pcmPlayer.current?.seek(Math.max(0, pcmPlayer.current.getCurrentTime() - 10));
+
+  const toggleLoopLine = async (index: number) => {
+    if (loopingLine === index) { pcmPlayer.current?.setLoopRange(null); setLoopingLine(null); return; }
+    const timing = (await loadAudioIfNeeded())?.[index]; if (!timing) return;
+    pcmPlayer.current?.setLoopRange(timing); setLoopingLine(index); setAbLoop(prev => ({ ...prev, active: false }));
+    if (!isPlaying) await startPlayback();
+  };
+
+  // Setting A past B (or B before A) would give an empty range, so the points are reordered or B is dropped.
+  const setLoopPoint = (point: 'start' | 'end') => {
+    const time = pcmPlayer.current?.getCurrentTime() ?? 0;
+    let start = point === 'start' ? time : abLoop.start ?? 0;
+    let end = point === 'end' ? time : abLoop.end;
+    if (end !== null && end <= start) {
+      if (point === 'start' || end === start) end = null;
+      else [start, end] = [end, start];
     }
+    applyAbLoop({ start, end, active: end !== null });
+  };
+
+  const toggleLoop = () => {
+    if (abLoop.start !== null && abLoop.end !== null) applyAbLoop({ ...abLoop, active: !abLoop.active });
+    else if (activeLineIndex >= 0) toggleLoopLine(activeLineIndex);
+  };
+
+  const addBookmark = () => {
+    const time = pcmPlayer.current?.getCurrentTime() ?? currentTime;
+    const name = bookmarkName.trim() || t('blind.bookmarkDefault', { n: bookmarks.length + 1 });
+    setBookmarks(prev => [...prev, { id: `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`, name, time }].sort((a, b) => a.time - b.time));
+    setBookmarkName('');
   };
 
+  const playLine = async (index: number) => {
+    const timing = (await loadAudioIfNeeded())?.[index]; if (!timing || !pcmPlayer.current) return;
+    setAppState(AppState.PLAYING_AUDIO); setIsPlaying(true); startListening();
+    await pcmPlayer.current.playSegment(timing, handleProgress, handlePlaybackEnded);
+  };
+
+  // The line gap belongs to the preceding line so highlighting doesn't flicker off between lines.
   const activeLineIndex = useMemo(() => {
-    if ((appState !== AppState.PLAYING_AUDIO && !isPlaying && audioProgress === 0) || audioProgress >= 99.9) return -1;
-    const totalChars = dialogue.lines.reduce((sum, l) => sum + l.text.length + 5, 0);
-    const currentPos = (audioProgress / 100) * totalChars;
-    let acc = 0;
-    return dialogue.lines.findIndex(l => {
-      const start = acc; const end = acc + l.text.length + 5;
-      acc = end; return currentPos >= start && currentPos <= end;
-    });
-  }, [audioProgress, dialogue.lines, appState, isPlaying]);
+    if (!lineTimings.length || (!isPlaying && currentTime === 0)) return -1;
+    for (let i = lineTimings.length - 1; i >= 0; i--) if (currentTime >= lineTimings[i].start) return i;
+    return -1;
+  }, [currentTime, lineTimings, isPlaying]);
+
+  // Blind-mode shortcuts for desk use. Re-assigned every render so the listener always sees current state;
+  // keys typed into text fields (the bookmark name) are left alone, and a focused slider keeps its arrow keys.
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutRef.current = (e) => {
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement || (target instanceof HTMLInputElement && target.type !== 'range')) return;
+    if (e.key === ' ' && target instanceof HTMLButtonElement) return;
+    if (e.key.startsWith('Arrow') && target instanceof HTMLInputElement) return;
+    const actions: Record<string, () => void> = {
+      ' ': handlePlayToggle, r: rewind, arrowleft: () => stepLine(-1), arrowright: () => stepLine(1),
+      a: () => setLoopPoint('start'), b: () => setLoopPoint('end'), l: toggleLoop
+    };
+    const action = actions[e.key.toLowerCase()];
+    if (!action) return;
+    e.preventDefault();
+    action();
+  };
+
+  useEffect(() => {
+    if (step !== 'blind') return;
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [step]);
 
   const startRecording = async () => {
+    try { await recorderRef.current.start(); setLiveStream(recorderRef.current.activeStream); setAppState(AppState.RECORDING); recordingStartedRef.current = Date.now(); } catch (err) { alert(t('errors.micDenied')); return; }
+    // Read mode compares against the reference, so fetch it (usually from the offline cache) while the learner speaks.
+    if (step === 'read') loadAudioIfNeeded();
+  };
+
+  // The user buffer is decoded before the model call so the local prosody check still works if analysis fails.
+  const stopRecording = async () => {
+    const blob = await recorderRef.current.stop();
+    const stoppedAt = Date.now();
+    setLiveStream(null); setAppState(AppState.ANALYZING); setAnalysisError(null);
+    try { setUserAudioBuffer(await blobToAudioBuffer(blob)); } catch (e) {}
+    try { const res = await analyzeRecitation(blob, dialogue.lines, requestsRef.current.signal); setFeedback(res); logPractice(dialogue, step === 'recite' ? 'recitation' : 'reading', recordingStartedRef.current, res.score, stoppedAt); if (step === 'recite') setDueLines(getDueLineIndices(recordReview(dialogue.id, res.score, getRecitationLineScores(res, dialogue.lines.length)))); } catch (e: any) {
+      if (isAbortError(e)) return;
+      setAnalysisError(e instanceof ModelResponseError ? 'card.analysisRetry' : e.message === "MISSING_API_KEY" ? 'card.analysisMissingKey' : e instanceof RequestTimeoutError ? 'errors.timeout' : 'card.analysisFailed');
+    } finally { setAppState(AppState.IDLE); }
+  };
+
+  const handleDictationCheck = () => {
+    if (!showDictationResult && userDictation.trim()) {
+      const diff = getDictationDiff(userDictation, masterText);
+      const review = recordReview(dialogue.id, diff.score, getLineScores(diff.words, dialogue.lines).map(l => l.score));
+      setDueLines(getDueLineIndices(review));
+      logPractice(dialogue, 'dictation', stepStartedRef.current, diff.score);
+      stepStartedRef.current = Date.now();
+    }
+    setShowDictationResult(!showDictationResult);
+  };
+
+  const switchDictationMode = (mode: DictationMode) => {
+    if (isPlaying) { pcmPlayer.current?.pause(); handlePlaybackEnded(); }
+    pcmPlayer.current?.stop();
+    setDictationMode(mode); setShowDictationResult(false);
+  };
+
+  const handleLineDictationComplete = (score: number, lineScores: number[]) => {
+    setDueLines(getDueLineIndices(recordReview(dialogue.id, score, lineScores)));
+    logPractice(dialogue, 'dictation', stepStartedRef.current, score);
+    stepStartedRef.current = Date.now();
+  };
+
+  // Translations are generated once and saved on the lines; only lines added or reworded since, or skipped by the model, are sent again.
+  // Replies are matched back by line text, so lines moved or reworded while the request was out are never mislabelled.
+  const requestTranslations = async () => {
+    if (hasTranslations || isTranslating) return hasTranslations;
+    setIsTranslating(true); setTranslationError(null);
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorderRef.current = new MediaRecorder(stream, { mimeType: 'audio/webm' });
-      chunksRef.current = [];
-      mediaRecorderRef.current.ondataavailable = (e) => chunksRef.current.push(e.data);
-      mediaRecorderRef.current.onstop = async () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        setAppState(AppState.ANALYZING); try { const res = await analyzeRecitation(blob, masterText); setFeedback(res); setUserAudioBuffer(await blobToAudioBuffer(blob)); } catch(e) {} finally { setAppState(AppState.IDLE); }
-        stream.getTracks().forEach(t => t.stop());
-      };
-      mediaRecorderRef.current.start(); setAppState(AppState.RECORDING);
-    } catch (err) { alert("Mic access denied."); }
+      const requested = untranslated.map(i => dialogue.lines[i]);
+      const translations = await translateLines(requested, language, requestsRef.current.signal);
+      const byText = new Map(requested.map((l, k) => [l.text, translations[k]] as const).filter(([, translation]) => translation));
+      const latest = dialogueRef.current;
+      onUpdate?.({ ...latest, lines: latest.lines.map(l => !l.translations?.[language] && byText.has(l.text) ? { ...l, translations: { ...l.translations, [language]: byText.get(l.text)! } } : l) });
+      return true;
+    } catch (e: any) {
+      if (!isAbortError(e)) setTranslationError(e.message === "MISSING_API_KEY" ? 'card.translationMissingKey' : e instanceof ModelResponseError ? 'errors.badReply' : e instanceof RequestTimeoutError ? 'errors.timeout' : 'card.translationFailed');
+      return false;
+    } finally { setIsTranslating(false); }
+  };
+
+  const toggleTranslation = async (index: number) => {
+    if (!shownTranslations.has(index) && !(await requestTranslations())) return;
+    setShownTranslations(prev => { const next = new Set(prev); next.has(index) ? next.delete(index) : next.add(index); return next; });
   };
 
-  const handleWordClick = async (word: string, context: string) => {
+  const handleTranslationChecked = (score: number) => {
+    logPractice(dialogue, 'translation', stepStartedRef.current, score);
+    stepStartedRef.current = Date.now();
+  };
+
+  // Each turn is scored on its own, so the model only ever sees the one line the learner was asked to say.
+  const scoreRolePlayTurn = (audio: Blob, line: DialogueLine) => analyzeRecitation(audio, [line], requestsRef.current.signal);
+
+  const handleRolePlayComplete = (score: number) => {
+    logPractice(dialogue, 'roleplay', stepStartedRef.current, score);
+    stepStartedRef.current = Date.now();
+  };
+
+  const handleWordClick = async (word: string, context: string, pronunciation?: WordPronunciation) => {
     const clean = word.replace(/[.,!?;:"()]/g, ''); if (!clean || clean.length < 2) return;
-    setSelectedWord({ word: clean, context }); setIsDefining(true);
-    try { const d = await getWordDefinition(clean, context); setSelectedWord(p => p ? { ...p, definition: d } : null); } catch (e) { setSelectedWord(p => p ? { ...p, definition: "Lookup failed." } : null); } finally { setIsDefining(false); }
+    setSelectedWord({ word: clean, context, pronunciation, savedId: findVocabEntry(loadVocabulary(), clean, dialogue.id)?.id }); setIsDefining(true);
+    try { const d = await getWordDefinition(clean, context, requestsRef.current.signal); setSelectedWord(p => p ? { ...p, definition: d } : null); } catch (e) { if (!isAbortError(e)) setSelectedWord(p => p ? { ...p, lookupFailed: true } : null); } finally { setIsDefining(false); }
   };
 
-  const ClickableText: React.FC<{ text: string }> = ({ text }) => (
-    <span>{text.split(/(\s+)/).map((p, i) => p.trim() === '' ? <span key={i}>{p}</span> : <span key={i} onClick={(e) => { e.stopPropagation(); handleWordClick(p, text); }} className="cursor-pointer hover:bg-indigo-900/50 hover:text-indigo-300 rounded px-0.5 underline-offset-4 decoration-indigo-700 decoration-1">{p}</span>)}</span>
-  );
+  // The sentence keeps its speaker's voice so flashcards replay it the way it sounded in the dialogue.
+  const toggleSavedWord = () => {
+    if (!selectedWord?.definition) return;
+    if (selectedWord.savedId) { removeVocabEntry(selectedWord.savedId); setSelectedWord({ ...selectedWord, savedId: undefined }); return; }
+    const speaker = dialogue.lines.find(l => l.text === selectedWord.context)?.speaker || '';
+    const entry = addVocabEntry({ word: selectedWord.word, definition: selectedWord.definition, sentence: selectedWord.context, dialogueId: dialogue.id, dialogueTitle: dialogue.title, voice: effectiveCast[speaker] });
+    setSelectedWord({ ...selectedWord, savedId: entry.id });
+  };
 
-  const ClozeText: React.FC<{ text: string }> = ({ text }) => (
-    <span>{text.split(/(\s+)/).map((p, i) => p.trim() === '' ? p : (p.replace(/[.,!?;:"()]/g, '').length > 3 && i % 3 === 0 ? <span key={i} className="inline-block min-w-[3ch] border-b-2 border-indigo-700 text-transparent bg-indigo-900/30 rounded px-1 mx-0.5">{p}</span> : <span key={i}>{p}</span>))}</span>
-  );
+  // With word scores the line becomes a heatmap; otherwise fall back to flagging the mispronounced words.
+  const ClickableText: React.FC<{ text: string, flagged?: string[], wordScores?: Record<number, WordPronunciation> }> = ({ text, flagged, wordScores }) => {
+    const flaggedSet = new Set((flagged || []).map(w => w.toLowerCase().replace(/[.,!?;:"()]/g, '')));
+    let wordIndex = -1;
+    return (
+      <span>{text.split(/(\s+)/).map((p, i) => {
+        if (p.trim() === '') return <span key={i}>{p}</span>;
+        const scored = wordScores?.[++wordIndex];
+        const tone = scored ? heatmapClass(scored.score) : flaggedSet.has(p.toLowerCase().replace(/[.,!?;:"()]/g, '')) ? 'underline decoration-wavy decoration-red-400 text-red-300' : 'decoration-indigo-700';
+        return <span key={i} onClick={(e) => { e.stopPropagation(); handleWordClick(p, text, scored); }} className={`cursor-pointer hover:bg-indigo-900/50 hover:text-indigo-300 rounded px-0.5 underline-offset-4 decoration-1 ${tone}`}>{p}</span>;
+      })}</span>
+    );
+  };
 
   return (
     <div className="flex flex-col h-full bg-slate-950 text-slate-200">
@@ -217,44 +488,84 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
         <div className="text-center">
           <h2 className="font-bold text-white text-sm line-clamp-1">{dialogue.title}</h2>
           <div className="flex items-center justify-center gap-2 mt-0.5">
-            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">{dialogue.difficulty}</span>
+            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-wider">{t(`difficulty.${dialogue.difficulty}`)}</span>
             <span className={`text-[9px] px-1.5 py-0.5 rounded border flex items-center gap-1 font-bold ${wordCount >= 50 && wordCount <= 70 ? 'text-emerald-400 bg-emerald-900/30 border-emerald-500/30' : 'text-slate-400 bg-slate-800 border-slate-700'}`}>
-               <Hash size={10} /> {wordCount} Words {wordCount >= 50 && wordCount <= 70 && '(Goal)'}
+               <Hash size={10} /> {t('common.words', { count: wordCount })} {wordCount >= 50 && wordCount <= 70 && t('card.wordGoal')}
             </span>
           </div>
         </div>
-        <div className="w-8"></div>
+        <div className="flex items-center -mr-2">
+          <button onClick={openAlignment} title={t('card.referenceRecording')} className={`p-2 rounded-full transition-colors ${dialogue.recording ? 'text-indigo-400' : 'text-slate-500 hover:text-indigo-400'}`}><AudioLines size={20} /></button>
+          {!dialogue.recording && <button onClick={() => setShowCasting(true)} title={t('card.voices')} className="p-2 text-slate-500 hover:text-indigo-400 rounded-full transition-colors"><Users size={20} /></button>}
+        </div>
       </div>
 
       <div className="flex bg-slate-900 border-b border-slate-800 shadow-sm z-20">
-        {([['blind', <Ear size={20} />, 'Blind'], ['dictation', <PenTool size={20} />, 'Dictation'], ['read', <BookOpen size={20} />, 'Read'], ['recite', <Mic size={20} />, 'Recite']] as const).map(([s, icon, label]) => (
+        {([['blind', <Ear size={20} />], ['dictation', <PenTool size={20} />], ['read', <BookOpen size={20} />], ['shadow', <Repeat2 size={20} />], ['recite', <Mic size={20} />], ['roleplay', <MessagesSquare size={20} />], ['translate', <Languages size={20} />]] as const).filter(([s]) => (s !== 'translate' || canTranslate) && (s !== 'roleplay' || canRolePlay)).map(([s, icon]) => (
           <button key={s} onClick={() => setStep(s)} className={`flex-1 py-4 flex flex-col items-center gap-1.5 transition-all relative ${step === s ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300 hover:bg-slate-800'}`}>
             <div className={`${step === s ? 'scale-110' : ''}`}>{icon}</div>
-            <span className="text-[10px] uppercase font-bold tracking-wider">{label}</span>
+            <span className="text-[10px] uppercase font-bold tracking-wider">{t(`card.step.${s}`)}</span>
             {step === s && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-indigo-500 rounded-t-full mx-4"></div>}
           </button>
         ))}
       </div>
 
       <div className="flex-1 overflow-y-auto relative bg-slate-950">
+        {translationError && step !== 'translate' && (
+          <div className="m-4 bg-red-500/10 border border-red-500/20 p-3 rounded-xl flex items-center justify-center gap-2 text-red-400 text-xs font-medium">
+            <AlertCircle size={14} className="shrink-0" /> {t(translationError)}
+          </div>
+        )}
         {step === 'blind' && (
           <div className="flex flex-col min-h-full pb-20">
             <div className="p-6 md:p-8 flex flex-col items-center justify-center space-y-6 bg-slate-900 border-b border-slate-800">
-               <div className="text-center space-y-2"><h3 className="text-2xl font-bold text-white">Blind Listening</h3><p className="text-slate-400 text-sm">Focus on the sounds. Text is hidden.</p></div>
+               <div className="text-center space-y-2"><h3 className="text-2xl font-bold text-white">{t('card.blindTitle')}</h3><p className="text-slate-400 text-sm">{t('card.blindBody')}</p></div>
                <div className="flex flex-col items-center gap-4 w-full max-w-md">
                  <div className="flex items-center gap-4">
-                    <button onClick={() => pcmPlayer.current?.seek(Math.max(0, pcmPlayer.current.getCurrentTime() - 10))} className="p-3 text-slate-400 hover:text-white"><RotateCcw size={24} /></button>
-                    <button onClick={handlePlayToggle} className={`w-20 h-20 rounded-full flex items-center justify-center transition-all ${isPlaying ? 'bg-slate-800 border-2 border-indigo-500 text-indigo-400' : 'bg-indigo-600 text-white'}`}>{isLoadingAudio ? <Loader2 className="animate-spin" size={36} /> : isPlaying ? <Pause size={36} fill="currentColor" /> : <Play size={36} fill="currentColor" className="ml-2" />}</button>
+                    <button onClick={rewind} className="p-3 text-slate-400 hover:text-white"><RotateCcw size={24} /></button>
+                    <button onClick={handlePlayToggle} className={`w-20 h-20 rounded-full flex items-center justify-center transition-all ${isPlaying ? 'bg-slate-800 border-2 border-indigo-500 text-indigo-400' : 'bg-indigo-600 text-white'}`}>{isLoadingAudio || isStretching ? <Loader2 className="animate-spin" size={36} /> : isPlaying ? <Pause size={36} fill="currentColor" /> : <Play size={36} fill="currentColor" className="ml-2" />}</button>
                     <div className="w-12"></div>
                  </div>
-                 <input type="range" value={audioProgress} onChange={(e) => { const p = parseFloat(e.target.value); setAudioProgress(p); pcmPlayer.current?.seek((p/100) * pcmPlayer.current.getDuration()); }} className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+                 <div className="relative w-full">
+                   <input type="range" value={audioProgress} onChange={(e) => { const p = parseFloat(e.target.value); setAudioProgress(p); pcmPlayer.current?.seek((p/100) * pcmPlayer.current.getDuration()); }} className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+                   {referenceAudioBuffer && abLoop.start !== null && (
+                     <div className={`absolute top-0 h-2 rounded-lg pointer-events-none border-x-2 border-amber-400 ${abLoop.active ? 'bg-amber-400/30' : 'bg-amber-400/10'}`} style={{ left: `${(abLoop.start / referenceAudioBuffer.duration) * 100}%`, width: `${(((abLoop.end ?? abLoop.start) - abLoop.start) / referenceAudioBuffer.duration) * 100}%` }} />
+                   )}
+                 </div>
+                 <div className="flex items-center gap-2 w-full text-xs">
+                   <button onClick={() => setLoopPoint('start')} title={t('blind.setStart')} className="px-2.5 py-1.5 rounded-lg bg-slate-800 font-black text-slate-300 hover:bg-slate-700 tabular-nums">A{abLoop.start !== null && <span className="ml-1.5 font-medium text-amber-300">{formatTime(abLoop.start)}</span>}</button>
+                   <button onClick={() => setLoopPoint('end')} title={t('blind.setEnd')} className="px-2.5 py-1.5 rounded-lg bg-slate-800 font-black text-slate-300 hover:bg-slate-700 tabular-nums">B{abLoop.end !== null && <span className="ml-1.5 font-medium text-amber-300">{formatTime(abLoop.end)}</span>}</button>
+                   <button onClick={() => applyAbLoop({ ...abLoop, active: !abLoop.active })} disabled={abLoop.end === null} title={t('blind.loopAb')} className={`p-1.5 rounded-lg transition-colors disabled:opacity-30 ${abLoop.active ? 'bg-amber-500 text-slate-950' : 'bg-slate-800 text-slate-400 hover:text-white'}`}><Repeat2 size={16} /></button>
+                   {abLoop.start !== null && <button onClick={() => applyAbLoop(NO_AB_LOOP)} title={t('blind.clearLoop')} className="p-1.5 rounded-lg text-slate-500 hover:text-white"><X size={16} /></button>}
+                 </div>
+                 <SpeedControl value={playbackSpeed} onChange={changeSpeed} />
+                 <div className="w-full space-y-2">
+                   <div className="flex items-center gap-2">
+                     <input value={bookmarkName} onChange={(e) => setBookmarkName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') addBookmark(); }} placeholder={t('blind.bookmarkPlaceholder')} className="flex-1 min-w-0 px-3 py-1.5 rounded-lg bg-slate-950 border border-slate-800 text-xs text-white outline-none focus:border-indigo-500 placeholder:text-slate-600" />
+                     <button onClick={addBookmark} disabled={!referenceAudioBuffer} title={t('blind.addBookmark')} className="p-1.5 rounded-lg bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-40"><BookmarkPlus size={16} /></button>
+                   </div>
+                   {bookmarks.length > 0 && (
+                     <div className="flex flex-wrap gap-2">
+                       {bookmarks.map(b => (
+                         <span key={b.id} className="flex items-center rounded-lg bg-slate-800 border border-slate-700 text-xs">
+                           <button onClick={() => seekTo(b.time)} className="pl-2.5 pr-1.5 py-1 text-slate-300 hover:text-white"><span className="font-mono text-indigo-300 mr-1.5">{formatTime(b.time)}</span>{b.name}</button>
+                           <button onClick={() => setBookmarks(prev => prev.filter(x => x.id !== b.id))} title={t('blind.removeBookmark')} className="pr-2 py-1 text-slate-500 hover:text-red-400"><X size={12} /></button>
+                         </span>
+                       ))}
+                     </div>
+                   )}
+                 </div>
+                 <p className="hidden md:block text-[10px] text-slate-600 text-center">{t('blind.shortcuts')}</p>
                </div>
             </div>
             <div className="flex-1 p-4 space-y-6 max-w-2xl mx-auto w-full">
                {dialogue.lines.map((l, i) => (
-                 <div key={i} className={`transition-all duration-500 border-l-4 p-6 rounded-2xl ${activeLineIndex === i ? 'border-indigo-500 bg-slate-800 shadow-xl' : 'border-transparent bg-slate-800/40 opacity-60'}`}>
+                 <div key={i} onClick={() => seekToLine(i)} className={`relative cursor-pointer transition-all duration-500 border-l-4 p-6 rounded-2xl ${activeLineIndex === i ? 'border-indigo-500 bg-slate-800 shadow-xl' : 'border-transparent bg-slate-800/40 opacity-60 hover:opacity-80'}`}>
+                    <button onClick={(e) => { e.stopPropagation(); toggleLoopLine(i); }} className={`absolute right-4 top-4 p-2 rounded-lg transition-colors ${loopingLine === i ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white'}`}><Repeat size={16} /></button>
+                    {canTranslate && <button onClick={(e) => { e.stopPropagation(); toggleTranslation(i); }} title={t('card.showTranslation')} className={`absolute right-14 top-4 p-2 rounded-lg transition-colors ${shownTranslations.has(i) ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white'}`}>{isTranslating && !hasTranslations ? <Loader2 className="animate-spin" size={16} /> : <Languages size={16} />}</button>}
                     {l.speaker && !['Narrator', 'Text', 'Article'].includes(l.speaker) && <div className="text-xs font-bold mb-2 uppercase text-slate-500">{l.speaker}</div>}
                     <p className={`text-lg md:text-xl leading-loose font-medium text-slate-200 blur-[6px] select-none ${activeLineIndex === i ? 'blur-[4px]' : ''}`}>{l.text}</p>
+                    {shownTranslations.has(i) && l.translations?.[language] && <p className="mt-2 text-sm text-indigo-300">{l.translations[language]}</p>}
                  </div>
                ))}
             </div>
@@ -264,53 +575,88 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
         {step === 'dictation' && (
           <div className="p-6 pb-24 space-y-6 max-w-2xl mx-auto min-h-full">
              <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 shadow-xl space-y-6">
-               <div className="flex items-center justify-between">
-                 <div><h3 className="font-bold text-white text-lg">Audio Dictation</h3><p className="text-xs text-slate-500">Transcribe what you hear.</p></div>
-                 <div className="flex gap-1 bg-slate-950/50 rounded-xl p-1 border border-slate-800">
-                   {[0.75, 1.0].map(r => <button key={r} onClick={() => { setPlaybackSpeed(r); pcmPlayer.current?.setRate(r); }} className={`text-[10px] font-black px-3 py-1.5 rounded-lg ${playbackSpeed === r ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{r}x</button>)}
-                 </div>
-               </div>
-               <div className="flex items-center gap-4">
-                 <button onClick={handlePlayToggle} className={`w-14 h-14 rounded-full flex items-center justify-center ${isPlaying ? 'bg-indigo-500/20 text-indigo-400 ring-2 ring-indigo-500/50' : 'bg-indigo-600 text-white'}`}>{isPlaying ? <Pause size={24} fill="currentColor" /> : <Play size={24} fill="currentColor" className="ml-1" />}</button>
-                 <div className="flex-1"><input type="range" value={audioProgress} className="w-full h-2 bg-slate-800 rounded-lg accent-indigo-500" readOnly /></div>
+               <div><h3 className="font-bold text-white text-lg">{t('card.dictationTitle')}</h3><p className="text-xs text-slate-500">{t('card.dictationBody')}</p></div>
+               <SpeedControl value={playbackSpeed} onChange={changeSpeed} />
+               <div className="flex gap-1 bg-slate-950/50 rounded-xl p-1 border border-slate-800">
+                 {(['full', 'line'] as DictationMode[]).map(m => <button key={m} onClick={() => switchDictationMode(m)} className={`flex-1 text-xs font-bold py-2 rounded-lg ${dictationMode === m ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}>{t(`card.dictationMode.${m}`)}</button>)}
                </div>
+               {dictationMode === 'full' && (
+                 <div className="flex items-center gap-4">
+                   <button onClick={handlePlayToggle} className={`w-14 h-14 rounded-full flex items-center justify-center ${isPlaying ? 'bg-indigo-500/20 text-indigo-400 ring-2 ring-indigo-500/50' : 'bg-indigo-600 text-white'}`}>{isPlaying ? <Pause size={24} fill="currentColor" /> : <Play size={24} fill="currentColor" className="ml-1" />}</button>
+                   <div className="flex-1"><input type="range" value={audioProgress} className="w-full h-2 bg-slate-800 rounded-lg accent-indigo-500" readOnly /></div>
+                 </div>
+               )}
              </div>
+             {dictationMode === 'line' ? (
+               <LineDictationPanel lines={dialogue.lines} player={pcmPlayer} loadTimings={loadAudioIfNeeded} isLoadingAudio={isLoadingAudio || isStretching} onStateChange={setAppState} onComplete={handleLineDictationComplete} />
+             ) : <>
              {!showDictationResult ? (
-               <textarea value={userDictation} onChange={(e) => setUserDictation(e.target.value)} placeholder="Type exactly..." className="w-full h-80 p-6 rounded-3xl border border-slate-300 text-slate-900 bg-white shadow-2xl outline-none focus:border-indigo-500 transition-all text-lg leading-relaxed font-medium" />
+               <textarea value={userDictation} onChange={(e) => setUserDictation(e.target.value)} placeholder={t('card.dictationPlaceholder')} className="w-full h-80 p-6 rounded-3xl border border-slate-300 text-slate-900 bg-white shadow-2xl outline-none focus:border-indigo-500 transition-all text-lg leading-relaxed font-medium" />
              ) : (
                <div className="bg-slate-900 p-8 rounded-3xl border border-slate-800 shadow-2xl animate-in zoom-in-95">
-                 <div className="flex items-center justify-between mb-8 pb-4 border-b border-slate-800">
-                   <h4 className="font-black text-white text-sm uppercase tracking-wider">Analysis: {dictationResult?.score}% Accurate</h4>
+                 <div className="flex flex-wrap items-center justify-between gap-3 mb-8 pb-4 border-b border-slate-800">
+                   <h4 className="font-black text-white text-sm uppercase tracking-wider">{t('card.dictationResult', { score: dictationResult?.score ?? 0 })}</h4>
+                   <div className="flex gap-2 text-[10px] font-black">
+                     <span className={`px-2 py-1 rounded-lg border ${scoreBadgeClass(dictationResult?.spelling ?? 0)}`}>{t('card.dictationSpelling', { score: dictationResult?.spelling ?? 0 })}</span>
+                     <span className={`px-2 py-1 rounded-lg border ${scoreBadgeClass(dictationResult?.completeness ?? 0)}`}>{t('card.dictationCompleteness', { score: dictationResult?.completeness ?? 0 })}</span>
+                   </div>
                  </div>
                  <div className="flex flex-wrap gap-x-2 gap-y-4 leading-relaxed">
-                   {dictationResult?.tokens.map((t, i) => t.status === 'correct' ? <span key={i} className="text-lg text-slate-200">{t.text}</span> : (t.status === 'missing' ? <span key={i} className="text-emerald-400 bg-emerald-900/30 px-1 rounded border border-emerald-500/30">{t.expected}</span> : <span key={i} className="text-red-400 bg-red-400/10 px-1 rounded border border-red-400/20 line-through">{t.text}</span>))}
+                   {dictationResult && <DiffTokens tokens={dictationResult.tokens} large />}
+                 </div>
+                 <div className="mt-8 pt-4 border-t border-slate-800 space-y-2">
+                   <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('card.dictationLines')}</p>
+                   {dictationLines.map((line, i) => (
+                     <div key={i} className="flex items-center gap-3 text-xs">
+                       <span className="w-5 shrink-0 font-bold text-slate-600">{i + 1}</span>
+                       <span className="flex-1 min-w-0 truncate text-slate-400">{dialogue.lines[i].text}</span>
+                       {(line.missing > 0 || line.misspelled > 0) && <span className="shrink-0 text-slate-500">{t('card.dictationLineDetail', { missing: line.missing, misspelled: line.misspelled })}</span>}
+                       <span className={`shrink-0 text-[10px] font-black px-2 py-1 rounded-lg border ${scoreBadgeClass(line.score)}`}>{line.score}%</span>
+                     </div>
+                   ))}
                  </div>
                </div>
              )}
-             <button onClick={() => setShowDictationResult(!showDictationResult)} className={`w-full py-4 rounded-2xl font-bold ${showDictationResult ? 'bg-slate-800 text-slate-300' : 'bg-indigo-600 text-white'}`}>{showDictationResult ? 'Back to Editor' : 'Check Errors'}</button>
+             <button onClick={handleDictationCheck} className={`w-full py-4 rounded-2xl font-bold ${showDictationResult ? 'bg-slate-800 text-slate-300' : 'bg-indigo-600 text-white'}`}>{showDictationResult ? t('card.backToEditor') : t('card.checkErrors')}</button>
+             </>}
           </div>
         )}
 
+        {step === 'translate' && (
+          <TranslateBackPanel lines={dialogue.lines} language={language} isTranslating={isTranslating} error={translationError} onTranslate={requestTranslations} onChecked={handleTranslationChecked} />
+        )}
+
+        {step === 'shadow' && (
+          <ShadowingPanel lines={dialogue.lines} player={pcmPlayer} loadTimings={loadAudioIfNeeded} isLoadingAudio={isLoadingAudio || isStretching} onStateChange={setAppState} />
+        )}
+
+        {step === 'roleplay' && (
+          <RolePlayPanel lines={dialogue.lines} player={pcmPlayer} loadTimings={loadAudioIfNeeded} isLoadingAudio={isLoadingAudio || isStretching} onStateChange={setAppState} scoreTurn={scoreRolePlayTurn} onComplete={handleRolePlayComplete} />
+        )}
+
         {(step === 'read' || step === 'recite') && (
           <div className="p-6 pb-20 space-y-6 max-w-2xl mx-auto min-h-full">
             {step === 'read' && (
               <div className="bg-slate-900 p-4 rounded-2xl border border-slate-800 space-y-3">
-                 <WaveformVisualizer buffer={referenceAudioBuffer} color="#6366f1" label="Target" />
-                 <WaveformVisualizer buffer={userAudioBuffer} color="#f43f5e" label="You" />
+                 <SpeedControl value={playbackSpeed} onChange={changeSpeed} />
+                 <WaveformVisualizer buffer={referenceAudioBuffer} color="#6366f1" label={t('common.target')} />
+                 <WaveformVisualizer buffer={userAudioBuffer} color="#f43f5e" label={t('common.you')} />
+                 <PitchContourVisualizer referenceBuffer={referenceAudioBuffer} userBuffer={userAudioBuffer} lineTimings={lineTimings} liveStream={liveStream} />
               </div>
             )}
+            {step === 'read' && prosodyReport && <ProsodyComparison report={prosodyReport} />}
 
             {step === 'recite' && (
               <div className="text-center mb-6">
-                <h3 className="font-bold text-white text-2xl">Accuracy Challenge</h3>
-                <p className="text-slate-500 text-sm">Target: {wordCount} Words (Aiming for 50-70 total)</p>
+                <h3 className="font-bold text-white text-2xl">{t('card.reciteTitle')}</h3>
+                <p className="text-slate-500 text-sm">{t('card.reciteTarget', { count: wordCount })}</p>
                 {feedback && (
                   <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
                      <div className="bg-indigo-600/20 text-indigo-400 px-4 py-1.5 rounded-full border border-indigo-500/30 flex items-center gap-2">
-                        <Award size={16} /> <span className="font-bold">Score: {feedback.score}%</span>
+                        <Award size={16} /> <span className="font-bold">{t('card.score', { score: feedback.score })}</span>
                      </div>
                      <div className="bg-emerald-600/20 text-emerald-400 px-4 py-1.5 rounded-full border border-emerald-500/30 flex items-center gap-2">
-                        <Hash size={16} /> <span className="font-bold">{feedback.transcription.split(/\s+/).filter(Boolean).length} / {wordCount} Words</span>
+                        <Hash size={16} /> <span className="font-bold">{t('card.wordsSpoken', { spoken: feedback.transcription.split(/\s+/).filter(Boolean).length, total: wordCount })}</span>
                      </div>
                   </div>
                 )}
@@ -330,9 +676,26 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
               
               <div className={`space-y-6 bg-slate-900 p-8 rounded-3xl border border-slate-800 transition-all duration-500 ${step === 'recite' && visibilityMode === 'hidden' ? 'blur-2xl opacity-20 select-none' : ''}`}>
                 {dialogue.lines.map((l, i) => (
-                  <p key={i} className="text-xl text-slate-200 leading-relaxed font-medium">
-                    {step === 'recite' && visibilityMode === 'cloze' ? <ClozeText text={l.text} /> : <ClickableText text={l.text} />}
-                  </p>
+                  <div key={i} className="flex items-start gap-3">
+                    {step === 'read' && (
+                      <button onClick={() => playLine(i)} className={`mt-1.5 p-1.5 rounded-lg shrink-0 transition-colors ${activeLineIndex === i && isPlaying ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-indigo-400'}`}><Volume2 size={16} /></button>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-xl leading-relaxed font-medium transition-colors ${step === 'read' && activeLineIndex === i && isPlaying ? 'text-indigo-300' : 'text-slate-200'} ${dueLines.includes(i) ? 'border-l-2 border-amber-500/60 pl-3 -ml-3.5' : ''}`}>
+                        {step === 'recite' && visibilityMode === 'cloze' ? <ClozeText text={l.text} /> : <ClickableText text={l.text} flagged={lineFeedback[i]?.mispronouncedWords} wordScores={wordScores[i]} />}
+                      </p>
+                      {step === 'read' && shownTranslations.has(i) && l.translations?.[language] && <p className="mt-1 text-sm text-indigo-300">{l.translations[language]}</p>}
+                      {lineFeedback[i] && lineFeedback[i].transcription && lineFeedback[i].score < 100 && (
+                        <p className="mt-1 text-xs text-slate-500 italic">{t('card.heard', { text: lineFeedback[i].transcription })}</p>
+                      )}
+                    </div>
+                    {step === 'read' && canTranslate && (
+                      <button onClick={() => toggleTranslation(i)} title={t('card.showTranslation')} className={`mt-1.5 p-1.5 rounded-lg shrink-0 transition-colors ${shownTranslations.has(i) ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-indigo-400'}`}>{isTranslating && !hasTranslations ? <Loader2 className="animate-spin" size={16} /> : <Languages size={16} />}</button>
+                    )}
+                    {lineFeedback[i] && (
+                      <span className={`mt-1.5 shrink-0 text-[10px] font-black px-2 py-1 rounded-lg border ${scoreBadgeClass(lineFeedback[i].score)}`}>{lineFeedback[i].score}%</span>
+                    )}
+                  </div>
                 ))}
               </div>
               
@@ -340,7 +703,7 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
                  <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                     <div className="bg-slate-900/80 backdrop-blur-sm px-6 py-3 rounded-2xl border border-slate-700 flex items-center gap-3 text-slate-400 shadow-2xl">
                        <EyeOff size={20} />
-                       <span className="font-bold text-sm tracking-wide">RECITING FROM MEMORY</span>
+                       <span className="font-bold text-sm tracking-wide">{t('card.recitingFromMemory')}</span>
                     </div>
                  </div>
               )}
@@ -350,7 +713,7 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
               <div className="space-y-4 animate-in slide-in-from-bottom-4">
                 <div className="bg-indigo-900/20 border border-indigo-500/20 p-6 rounded-3xl space-y-4">
                   <div className="flex items-center gap-3 text-indigo-400 font-bold uppercase text-xs tracking-widest">
-                    <MessageSquareQuote size={16} /> Transcription
+                    <MessageSquareQuote size={16} /> {t('card.transcription')}
                   </div>
                   <p className="text-slate-300 italic text-sm leading-relaxed">"{feedback.transcription}"</p>
                 </div>
@@ -358,13 +721,13 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="bg-slate-900 border border-slate-800 p-6 rounded-3xl space-y-3">
                      <div className="text-emerald-400 font-bold text-xs uppercase tracking-widest flex items-center gap-2">
-                        <Activity size={14} /> Pronunciation
+                        <Activity size={14} /> {t('card.pronunciation')}
                      </div>
                      <p className="text-slate-400 text-sm leading-relaxed">{feedback.pronunciationAnalysis}</p>
                   </div>
                   <div className="bg-slate-900 border border-slate-800 p-6 rounded-3xl space-y-3">
                      <div className="text-indigo-400 font-bold text-xs uppercase tracking-widest flex items-center gap-2">
-                        <Activity size={14} /> Intonation
+                        <Activity size={14} /> {t('card.intonation')}
                      </div>
                      <p className="text-slate-400 text-sm leading-relaxed">{feedback.intonationAnalysis}</p>
                   </div>
@@ -372,7 +735,7 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
 
                 <div className="bg-amber-900/10 border border-amber-500/20 p-6 rounded-3xl">
                    <div className="text-amber-400 font-bold text-xs uppercase tracking-widest flex items-center gap-2 mb-4">
-                      <Lightbulb size={16} /> Mastery Tips
+                      <Lightbulb size={16} /> {t('card.tips')}
                    </div>
                    <ul className="space-y-3">
                       {feedback.tips.map((tip, i) => (
@@ -388,11 +751,11 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
 
             <div className="flex justify-center pt-4">
               {appState === AppState.RECORDING ? (
-                 <button onClick={() => mediaRecorderRef.current?.stop()} className="flex flex-col items-center gap-3">
+                 <button onClick={stopRecording} className="flex flex-col items-center gap-3">
                    <div className="w-20 h-20 rounded-full bg-red-600 flex items-center justify-center animate-pulse shadow-xl shadow-red-900/40">
                      <Square size={28} fill="currentColor" />
                    </div>
-                   <span className="text-red-500 font-bold text-sm uppercase tracking-widest">Finish</span>
+                   <span className="text-red-500 font-bold text-sm uppercase tracking-widest">{t('card.finish')}</span>
                  </button>
               ) : (
                  <button onClick={startRecording} className="flex flex-col items-center gap-3 group">
@@ -400,22 +763,82 @@ export const DialogueCard: React.FC<DialogueCardProps> = ({ dialogue, onStateCha
                      {appState === AppState.ANALYZING ? <Loader2 className="animate-spin" size={32} /> : <Mic size={32} />}
                    </div>
                    <span className="text-indigo-400 font-bold text-sm uppercase tracking-widest">
-                     {appState === AppState.ANALYZING ? 'Analyzing...' : step === 'recite' ? 'Start Reciting' : 'Start Recording'}
+                     {appState === AppState.ANALYZING ? t('card.analyzing') : step === 'recite' ? t('card.startReciting') : t('card.startRecording')}
                    </span>
                  </button>
               )}
             </div>
+            {analysisError && (
+              <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-xl flex items-center justify-center gap-2 text-red-400 text-xs font-medium">
+                <AlertCircle size={14} className="shrink-0" /> {t(analysisError)}
+              </div>
+            )}
           </div>
         )}
       </div>
 
+      {showAlignment && <AudioAlignmentEditor dialogue={dialogue} onSave={saveAlignment} onClose={() => setShowAlignment(false)} />}
+
+      {showCasting && (
+        <div className="fixed inset-0 z-50 flex items-end justify-center p-4 bg-black/40 backdrop-blur-sm">
+          <div className="bg-slate-900 rounded-[2rem] border border-slate-800 p-8 relative w-full max-w-lg animate-in slide-in-from-bottom-full duration-500">
+             <button onClick={() => setShowCasting(false)} className="absolute right-6 top-6 text-slate-500 hover:text-white transition-colors"><X size={24} /></button>
+             <h4 className="text-2xl font-black text-white mb-1">{t('card.castTitle')}</h4>
+             <p className="text-slate-500 text-sm mb-6">{t('card.castBody')}</p>
+             <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+               {getSpeakers(dialogue.lines).map(speaker => (
+                 <div key={speaker} className="space-y-2">
+                   <div className="text-xs font-bold uppercase tracking-wider text-slate-400">{speaker || t('common.narrator')}</div>
+                   <div className="flex flex-wrap gap-2">
+                     {TTS_VOICES.map(v => (
+                       <button key={v.name} onClick={() => updateCast({ ...effectiveCast, [speaker]: v.name })} className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${effectiveCast[speaker] === v.name ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+                         {v.name} <span className="font-normal opacity-60">· {v.style}</span>
+                       </button>
+                     ))}
+                   </div>
+                 </div>
+               ))}
+             </div>
+             <button onClick={() => updateCast(autoCast(dialogue.lines))} className="mt-6 w-full py-3 rounded-xl bg-slate-800 text-slate-300 font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-700 transition-all"><Wand2 size={16} /> {t('card.autoAssign')}</button>
+          </div>
+        </div>
+      )}
+
       {selectedWord && (
         <div className="fixed inset-0 z-50 flex items-end justify-center p-4 bg-black/40 backdrop-blur-sm">
           <div className="bg-slate-900 rounded-[2rem] border border-slate-800 p-8 relative w-full max-w-lg animate-in slide-in-from-bottom-full duration-500">
              <button onClick={() => setSelectedWord(null)} className="absolute right-6 top-6 text-slate-500 hover:text-white transition-colors"><X size={24} /></button>
-             <h4 className="text-3xl font-black text-white capitalize mb-6">{selectedWord.word}</h4>
+             <div className="flex items-center gap-3 mb-6 pr-10">
+               <h4 className="text-3xl font-black text-white capitalize">{selectedWord.word}</h4>
+               <button onClick={toggleSavedWord} disabled={!selectedWord.definition} title={selectedWord.savedId ? t('card.wordSaved') : t('card.saveWord')} className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${selectedWord.savedId ? 'text-indigo-400' : 'text-slate-500 hover:text-indigo-400'}`}>
+                 {selectedWord.savedId ? <BookmarkCheck size={22} /> : <Bookmark size={22} />}
+               </button>
+             </div>
+             {selectedWord.pronunciation && (
+               <div className="mb-4 bg-slate-950/50 p-5 rounded-2xl border border-slate-800 space-y-3">
+                 <div className="flex items-center justify-between">
+                   <span className="text-xs font-bold uppercase tracking-widest text-slate-500">{t('card.pronunciation')}</span>
+                   <span className={`text-xs font-black px-2 py-1 rounded-lg ${heatmapClass(selectedWord.pronunciation.score)}`}>{selectedWord.pronunciation.score}%</span>
+                 </div>
+                 {selectedWord.pronunciation.heard && selectedWord.pronunciation.heard.toLowerCase() !== selectedWord.pronunciation.expected.toLowerCase() && (
+                   <p className="text-sm text-slate-400">{t('card.heardAs')} <span className="text-slate-200 font-bold">"{selectedWord.pronunciation.heard}"</span></p>
+                 )}
+                 {selectedWord.pronunciation.phonemes.length > 0 ? (
+                   <ul className="space-y-2">
+                     {selectedWord.pronunciation.phonemes.map((ph, i) => (
+                       <li key={i} className="flex items-start gap-3 text-sm">
+                         <span className="font-mono shrink-0 text-emerald-300">/{ph.expected}/</span>
+                         <span className="text-slate-600">→</span>
+                         <span className="font-mono shrink-0 text-red-300">{ph.heard ? `/${ph.heard}/` : '∅'}</span>
+                         <span className="text-slate-400">{ph.note}</span>
+                       </li>
+                     ))}
+                   </ul>
+                 ) : <p className="text-sm text-slate-500">{t('card.noPhonemeIssues')}</p>}
+               </div>
+             )}
              <div className="bg-slate-950/50 p-6 rounded-2xl border border-slate-800 min-h-[100px] flex items-center">
-                {isDefining ? <div className="flex gap-3 text-slate-500 italic"><Loader2 className="animate-spin" size={20} /><span>Searching...</span></div> : <p className="text-slate-300 font-medium leading-relaxed text-lg">{selectedWord.definition || "No definition found."}</p>}
+                {isDefining ? <div className="flex gap-3 text-slate-500 italic"><Loader2 className="animate-spin" size={20} /><span>{t('card.searching')}</span></div> : <p className="text-slate-300 font-medium leading-relaxed text-lg">{selectedWord.lookupFailed ? t('card.lookupFailed') : selectedWord.definition || t('card.noDefinition')}</p>}
              </div>
           </div>
         </div>
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Dialogue, DialogueLine, ContentCategory } from '../types';
+import { getSpeakers } from '../services/voiceCasting';
+import { useI18n, MessageKey } from '../services/i18n';
+import { normalizeTags } from '../services/library';
+import { remapReviewLines } from '../services/reviewScheduler';
+import { Pencil, X, Plus, Trash2, ChevronUp, ChevronDown, Save, AlertCircle } from 'lucide-react';
+
+interface DialogueEditorProps {
+  dialogue: Dialogue;
+  onSave: (dialogue: Dialogue) => void;
+  onClose: () => void;
+}
+
+const CATEGORIES: ContentCategory[] = ['Daily', 'BBC News', 'TED Talk', 'Interview', 'Life Vlog'];
+const DIFFICULTIES: Dialogue['difficulty'][] = ['Beginner', 'Intermediate', 'Advanced'];
+
+// Remembers which saved line each row started as, so per-line review history can follow it through moves and deletes.
+interface EditorLine extends DialogueLine {
+  origin: number | null;
+}
+
+const fieldClass = "w-full p-3 rounded-xl bg-slate-950 border border-slate-800 text-sm text-white outline-none focus:border-indigo-500 transition-all placeholder:text-slate-600";
+
+export const DialogueEditor: React.FC<DialogueEditorProps> = ({ dialogue, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [title, setTitle] = useState(dialogue.title);
+  const [scenario, setScenario] = useState(dialogue.scenario);
+  const [category, setCategory] = useState<ContentCategory>(dialogue.category);
+  const [difficulty, setDifficulty] = useState<Dialogue['difficulty']>(dialogue.difficulty);
+  const [duration, setDuration] = useState(dialogue.duration);
+  const [tagInput, setTagInput] = useState((dialogue.tags || []).join(', '));
+  const [lines, setLines] = useState<EditorLine[]>(() => dialogue.lines.map((l, i) => ({ ...l, origin: i })));
+  const [error, setError] = useState<MessageKey | null>(null);
+  const speakers = getSpeakers(lines.filter(l => l.speaker.trim()));
+
+  // Rewording a line invalidates its stored translations; they are regenerated on next use.
+  const updateLine = (index: number, patch: Partial<DialogueLine>) => {
+    setLines(prev => prev.map((l, i) => i !== index ? l : patch.text === undefined ? { ...l, ...patch } : { ...l, ...patch, translations: undefined }));
+  };
+
+  const moveLine = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= lines.length) return;
+    setLines(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  // New lines default to whoever did not speak last, which is right for two-person dialogues.
+  const addLine = (after: number) => {
+    const previous = lines[after]?.speaker;
+    const speaker = speakers.find(s => s !== previous) || previous || 'A';
+    setLines(prev => [...prev.slice(0, after + 1), { speaker, text: '', origin: null }, ...prev.slice(after + 1)]);
+  };
+
+  const handleSave = () => {
+    const kept = lines
+      .map(l => ({ ...l, speaker: l.speaker.trim(), text: l.text.trim() }))
+      .filter(l => l.text);
+    const cleaned: DialogueLine[] = kept.map(({ origin, ...l }) => l);
+    if (!title.trim()) { setError('editor.titleRequired'); return; }
+    if (cleaned.length === 0) { setError('editor.lineRequired'); return; }
+    if (cleaned.some(l => !l.speaker)) { setError('editor.speakerRequired'); return; }
+
+    // Keep voice choices only for speakers that are still in the script.
+    const remaining = new Set(getSpeakers(cleaned));
+    const cast = dialogue.cast
+      ? Object.fromEntries(Object.entries(dialogue.cast).filter(([speaker]) => remaining.has(speaker)))
+      : undefined;
+    const tags = normalizeTags(tagInput);
+    remapReviewLines(dialogue.id, kept.map(l => l.origin));
+    onSave({
+      ...dialogue,
+      title: title.trim(),
+      scenario: scenario.trim(),
+      category,
+      difficulty,
+      duration: duration.trim() || dialogue.duration,
+      lines: cleaned,
+      cast,
+      tags: tags.length ? tags : undefined
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-md">
+      <div className="bg-slate-900 w-full max-w-lg rounded-3xl border border-slate-800 shadow-2xl overflow-hidden animate-in zoom-in-95 flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b border-slate-800 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2">
+            <Pencil className="text-indigo-400" size={20} /> {t('editor.title')}
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors"><X /></button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="space-y-3">
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('editor.details')}</label>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={t('editor.titlePlaceholder')} className={fieldClass} />
+            <textarea value={scenario} onChange={(e) => setScenario(e.target.value)} placeholder={t('editor.scenarioPlaceholder')} rows={2} className={`${fieldClass} resize-none`} />
+            <div className="grid grid-cols-3 gap-2">
+              <select value={category} onChange={(e) => setCategory(e.target.value as ContentCategory)} className={fieldClass}>
+                {CATEGORIES.map(c => <option key={c} value={c}>{t(`category.${c}`)}</option>)}
+              </select>
+              <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as Dialogue['difficulty'])} className={fieldClass}>
+                {DIFFICULTIES.map(d => <option key={d} value={d}>{t(`difficulty.${d}`)}</option>)}
+              </select>
+              <input value={duration} onChange={(e) => setDuration(e.target.value)} placeholder={t('editor.durationPlaceholder')} className={fieldClass} />
+            </div>
+            <input value={tagInput} onChange={(e) => setTagInput(e.target.value)} placeholder={t('editor.tagsPlaceholder')} className={fieldClass} />
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('editor.lines')}</label>
+            <datalist id="dialogue-editor-speakers">
+              {speakers.map(s => <option key={s} value={s} />)}
+            </datalist>
+            {lines.map((line, i) => (
+              <div key={i} className="bg-slate-950 border border-slate-800 rounded-2xl p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-[10px] font-bold text-slate-600 w-6">{i + 1}</span>
+                  <input value={line.speaker} onChange={(e) => updateLine(i, { speaker: e.target.value })} list="dialogue-editor-speakers" placeholder={t('editor.speakerPlaceholder')} className="flex-1 min-w-0 bg-transparent text-xs font-bold uppercase tracking-wider text-indigo-400 outline-none placeholder:text-slate-700" />
+                  <button onClick={() => moveLine(i, -1)} disabled={i === 0} className="p-1 text-slate-500 hover:text-white disabled:opacity-20"><ChevronUp size={16} /></button>
+                  <button onClick={() => moveLine(i, 1)} disabled={i === lines.length - 1} className="p-1 text-slate-500 hover:text-white disabled:opacity-20"><ChevronDown size={16} /></button>
+                  <button onClick={() => addLine(i)} title={t('editor.insertBelow')} className="p-1 text-slate-500 hover:text-indigo-400"><Plus size={16} /></button>
+                  <button onClick={() => setLines(prev => prev.filter((_, j) => j !== i))} disabled={lines.length === 1} className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-20"><Trash2 size={16} /></button>
+                </div>
+                <textarea value={line.text} onChange={(e) => updateLine(i, { text: e.target.value })} rows={2} placeholder={t('editor.linePlaceholder')} className="w-full bg-transparent text-sm text-slate-200 outline-none resize-none placeholder:text-slate-700" />
+              </div>
+            ))}
+            <button onClick={() => addLine(lines.length - 1)} className="w-full py-3 rounded-xl border-2 border-dashed border-slate-800 text-slate-500 font-bold text-sm flex items-center justify-center gap-2 hover:border-slate-700 hover:text-slate-300 transition-all">
+              <Plus size={16} /> {t('editor.addLine')}
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-xl">
+              <p className="text-red-400 text-xs text-center font-medium flex items-center justify-center gap-2"><AlertCircle size={12} /> {t(error)}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-slate-800">
+          <button onClick={handleSave} className="w-full py-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-500 transition-all flex items-center justify-center gap-2">
+            <Save size={18} /> {t('editor.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
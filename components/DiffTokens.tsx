@@ -0,0 +1,31 @@
+import React from 'react';
+import { DiffToken } from '../services/dictationDiff';
+
+interface DiffTokensProps {
+  tokens: DiffToken[];
+  large?: boolean;
+}
+
+export const scoreBadgeClass = (score: number) =>
+  score >= 85 ? 'text-emerald-400 bg-emerald-900/30 border-emerald-500/30' : score >= 60 ? 'text-amber-400 bg-amber-900/20 border-amber-500/30' : 'text-red-400 bg-red-400/10 border-red-400/20';
+
+// Misspelled and wrong words show what was typed followed by the word that was expected.
+export const DiffTokens: React.FC<DiffTokensProps> = ({ tokens, large }) => (
+  <>
+    {tokens.map((token, i) => {
+      if (token.status === 'correct') return <span key={i} className={`text-slate-200 ${large ? 'text-lg' : ''}`}>{token.text}</span>;
+      if (token.status === 'missing') return <span key={i} className="text-emerald-400 bg-emerald-900/30 px-1 rounded border border-emerald-500/30">{token.expected}</span>;
+      if (token.status === 'misspelled') return (
+        <span key={i} className="text-amber-400 bg-amber-900/20 px-1 rounded border border-amber-500/30">
+          <span className="underline decoration-wavy decoration-amber-500/60">{token.text}</span> <span className="text-[10px] text-amber-200/70">{token.expected}</span>
+        </span>
+      );
+      return (
+        <span key={i} className="flex gap-1">
+          <span className="text-red-400 bg-red-400/10 px-1 rounded border border-red-400/20 line-through">{token.text}</span>
+          {token.status === 'incorrect' && <span className="text-emerald-400 bg-emerald-900/30 px-1 rounded border border-emerald-500/30">{token.expected}</span>}
+        </span>
+      );
+    })}
+  </>
+);
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState, DialogueLine, LineTiming } from '../types';
+import { PCMPlayer } from '../services/geminiService';
+import { getDictationDiff, scoreWords, DictationDiff } from '../services/dictationDiff';
+import { useI18n } from '../services/i18n';
+import { DiffTokens, scoreBadgeClass } from './DiffTokens';
+import { Play, Square, Loader2, RotateCcw, ArrowRight, AlertCircle, Award } from 'lucide-react';
+
+interface LineDictationPanelProps {
+  lines: DialogueLine[];
+  player: React.MutableRefObject<PCMPlayer | null>;
+  loadTimings: () => Promise<LineTiming[] | null>;
+  isLoadingAudio: boolean;
+  onStateChange: (state: AppState) => void;
+  onComplete: (score: number, lineScores: number[]) => void;
+}
+
+interface LineAttempt {
+  answer: string;
+  diff: DictationDiff;
+}
+
+// One line at a time: play it, replay it as often as needed, type it, check it, move on.
+// Speed is whatever rate the shared player was last given.
+export const LineDictationPanel: React.FC<LineDictationPanelProps> = ({ lines, player, loadTimings, isLoadingAudio, onStateChange, onComplete }) => {
+  const { t } = useI18n();
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [plays, setPlays] = useState<number[]>(() => lines.map(() => 0));
+  const [attempts, setAttempts] = useState<(LineAttempt | null)[]>(() => lines.map(() => null));
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [audioFailed, setAudioFailed] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const current = attempts[index];
+  const isFinished = attempts.every(Boolean);
+  const replays = (i: number) => Math.max(0, plays[i] - 1);
+
+  useEffect(() => () => { player.current?.stop(); }, []);
+
+  const stopLine = () => {
+    player.current?.stop();
+    setIsPlaying(false); onStateChange(AppState.IDLE);
+  };
+
+  const playLine = async (i: number) => {
+    setAudioFailed(false);
+    const timing = (await loadTimings())?.[i];
+    if (!timing || !player.current) { setAudioFailed(true); return; }
+    setPlays(prev => prev.map((n, j) => j === i ? n + 1 : n));
+    setIsPlaying(true); onStateChange(AppState.PLAYING_AUDIO);
+    await player.current.playSegment(timing, undefined, () => { setIsPlaying(false); onStateChange(AppState.IDLE); });
+    inputRef.current?.focus();
+  };
+
+  const check = () => {
+    if (!answer.trim() || current) return;
+    stopLine();
+    const next = attempts.map((a, i) => i === index ? { answer, diff: getDictationDiff(answer, lines[index].text) } : a);
+    setAttempts(next);
+    if (next.every(Boolean)) {
+      const done = next as LineAttempt[];
+      onComplete(scoreWords(done.flatMap(a => a.diff.words)).score, done.map(a => a.diff.score));
+    }
+  };
+
+  const goTo = (i: number) => {
+    stopLine();
+    setShowReport(false); setIndex(i); setAnswer(attempts[i]?.answer || '');
+    if (!attempts[i]) playLine(i);
+  };
+
+  const openReport = () => { stopLine(); setShowReport(true); };
+
+  const restart = () => {
+    stopLine();
+    setShowReport(false); setIndex(0); setAnswer('');
+    setPlays(lines.map(() => 0)); setAttempts(lines.map(() => null));
+  };
+
+  // Enter checks the line (Shift+Enter still inserts a newline); the next-line button then takes focus, so Enter moves on.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Enter' || e.shiftKey) return;
+    e.preventDefault();
+    check();
+  };
+
+  if (isFinished && showReport) {
+    const done = attempts as LineAttempt[];
+    const overall = scoreWords(done.flatMap(a => a.diff.words));
+    const totalReplays = lines.reduce((sum, _, i) => sum + replays(i), 0);
+    return (
+      <div className="space-y-4 animate-in fade-in">
+        <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 shadow-xl flex items-center justify-between gap-4">
+          <div><h3 className="font-bold text-white text-lg">{t('dictation.reportTitle')}</h3><p className="text-xs text-slate-500">{t('dictation.reportSummary', { replays: totalReplays })}</p></div>
+          <div className="bg-indigo-600/20 text-indigo-400 px-4 py-1.5 rounded-full border border-indigo-500/30 flex items-center gap-2 shrink-0">
+            <Award size={16} /> <span className="font-bold text-sm">{overall.score}%</span>
+          </div>
+        </div>
+        {done.map((a, i) => (
+          <div key={i} onClick={() => goTo(i)} className="bg-slate-900 p-4 rounded-2xl border border-slate-800 space-y-2 cursor-pointer hover:border-slate-700 transition-all">
+            <div className="flex items-center gap-3 text-xs">
+              <span className="w-5 shrink-0 font-bold text-slate-600">{i + 1}</span>
+              <span className="flex-1 min-w-0 text-slate-500">
+                {t('dictation.replays', { count: replays(i) })}
+                {(a.diff.missing > 0 || a.diff.misspelled > 0) && <> · {t('card.dictationLineDetail', { missing: a.diff.missing, misspelled: a.diff.misspelled })}</>}
+              </span>
+              <span className={`shrink-0 text-[10px] font-black px-2 py-1 rounded-lg border ${scoreBadgeClass(a.diff.score)}`}>{a.diff.score}%</span>
+            </div>
+            <div className="flex flex-wrap gap-x-2 gap-y-2 leading-relaxed"><DiffTokens tokens={a.diff.tokens} /></div>
+          </div>
+        ))}
+        <button onClick={restart} className="w-full py-4 rounded-2xl font-bold bg-slate-800 text-slate-300 flex items-center justify-center gap-2"><RotateCcw size={16} /> {t('dictation.restart')}</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 shadow-xl space-y-5">
+        <div className="flex items-center gap-4">
+          <button onClick={() => isPlaying ? stopLine() : playLine(index)} title={t('dictation.play')} className={`w-14 h-14 shrink-0 rounded-full flex items-center justify-center ${isPlaying ? 'bg-indigo-500/20 text-indigo-400 ring-2 ring-indigo-500/50' : 'bg-indigo-600 text-white'}`}>
+            {isLoadingAudio ? <Loader2 className="animate-spin" size={24} /> : isPlaying ? <Square size={22} fill="currentColor" /> : <Play size={24} fill="currentColor" className="ml-1" />}
+          </button>
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-bold text-white">{t('dictation.lineOf', { current: index + 1, total: lines.length })}</p>
+            <p className="text-xs text-slate-500">{plays[index] === 0 ? t('dictation.notPlayed') : t('dictation.replays', { count: replays(index) })}</p>
+          </div>
+          <div className="flex gap-1">
+            {lines.map((_, i) => <span key={i} className={`w-1.5 h-6 rounded-full ${i === index ? 'bg-indigo-400' : attempts[i] ? 'bg-indigo-900' : 'bg-slate-800'}`} />)}
+          </div>
+        </div>
+        {audioFailed && <p className="text-xs text-red-400 flex items-center gap-1.5"><AlertCircle size={12} /> {t('card.audioFailed')}</p>}
+      </div>
+
+      {!current ? (
+        <textarea ref={inputRef} value={answer} onChange={(e) => setAnswer(e.target.value)} onKeyDown={handleKeyDown} rows={3} placeholder={t('dictation.placeholder')} className="w-full p-5 rounded-3xl border border-slate-300 text-slate-900 bg-white shadow-2xl outline-none focus:border-indigo-500 transition-all text-lg leading-relaxed font-medium resize-none" />
+      ) : (
+        <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 shadow-2xl animate-in zoom-in-95 flex items-start gap-3">
+          <div className="flex-1 flex flex-wrap gap-x-2 gap-y-3 leading-relaxed"><DiffTokens tokens={current.diff.tokens} large /></div>
+          <span className={`shrink-0 text-[10px] font-black px-2 py-1 rounded-lg border ${scoreBadgeClass(current.diff.score)}`}>{current.diff.score}%</span>
+        </div>
+      )}
+
+      {!current ? (
+        <button onClick={check} disabled={!answer.trim()} className="w-full py-4 rounded-2xl font-bold bg-indigo-600 text-white disabled:opacity-50">{t('dictation.check')}</button>
+      ) : (
+        <button autoFocus onClick={() => isFinished ? openReport() : goTo(index + 1)} className="w-full py-4 rounded-2xl font-bold bg-indigo-600 text-white flex items-center justify-center gap-2">
+          {isFinished ? t('dictation.finish') : <>{t('dictation.next')} <ArrowRight size={16} /></>}
+        </button>
+      )}
+    </div>
+  );
+};
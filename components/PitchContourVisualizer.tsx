@@ -0,0 +1,152 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { LineTiming } from '../types';
+import { getSharedAudioContext } from '../services/geminiService';
+import { useI18n } from '../services/i18n';
+import { extractPitchContour, estimateFramePitch, toSemitones } from '../services/prosodyAnalysis';
+
+interface PitchContourVisualizerProps {
+  referenceBuffer: AudioBuffer | null;
+  userBuffer: AudioBuffer | null;
+  lineTimings: LineTiming[];
+  liveStream?: MediaStream | null;
+  height?: number;
+}
+
+// x is a 0-1 position along the take, y is semitones from that speaker's median pitch.
+interface ContourPoint { x: number; st: number | null; }
+
+const contourFromBuffer = (buffer: AudioBuffer): ContourPoint[] => {
+  const { pitch } = extractPitchContour(buffer);
+  return toSemitones(pitch).map((st, i) => ({ x: i / Math.max(1, pitch.length - 1), st }));
+};
+
+// The live centre pitch is re-taken this often (in animation frames) rather than re-sorting every frame.
+const CENTER_REFRESH_FRAMES = 30;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 1;
+};
+
+// Reference and user contours share a time-normalised axis so takes of different lengths still line up.
+export const PitchContourVisualizer: React.FC<PitchContourVisualizerProps> = ({ referenceBuffer, userBuffer, lineTimings, liveStream, height = 120 }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const livePointsRef = useRef<{ t: number; hz: number }[]>([]);
+  const widthRef = useRef(300);
+  const referenceContour = useMemo(() => referenceBuffer ? contourFromBuffer(referenceBuffer) : [], [referenceBuffer]);
+  const userContour = useMemo(() => userBuffer && !liveStream ? contourFromBuffer(userBuffer) : [], [userBuffer, liveStream]);
+  const duration = referenceBuffer?.duration || 0;
+  const isEmpty = !referenceBuffer && !userBuffer && !liveStream;
+
+  const draw = (live: ContourPoint[] | null) => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    const ctx = canvas.getContext('2d'); if (!ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    const width = widthRef.current;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0); ctx.fillStyle = '#1e293b'; ctx.fillRect(0, 0, width, height);
+    const span = 9;
+    const y = (st: number) => height / 2 - (Math.max(-span, Math.min(span, st)) / span) * (height / 2 - 8);
+
+    ctx.beginPath(); ctx.strokeStyle = '#334155'; ctx.moveTo(0, height / 2); ctx.lineTo(width, height / 2); ctx.stroke();
+    if (duration > 0) {
+      ctx.setLineDash([3, 4]); ctx.strokeStyle = '#475569'; ctx.fillStyle = '#64748b'; ctx.font = 'bold 9px sans-serif';
+      lineTimings.forEach((t, i) => {
+        const lx = (t.start / duration) * width;
+        ctx.beginPath(); ctx.moveTo(lx, 0); ctx.lineTo(lx, height); ctx.stroke();
+        ctx.fillText(`L${i + 1}`, lx + 3, height - 4);
+      });
+      ctx.setLineDash([]);
+    }
+
+    const plot = (points: ContourPoint[], color: string) => {
+      ctx.beginPath(); ctx.strokeStyle = color; ctx.lineWidth = 2; ctx.lineJoin = 'round';
+      let drawing = false;
+      points.forEach(p => {
+        if (p.st === null) { drawing = false; return; }
+        if (!drawing) { ctx.moveTo(p.x * width, y(p.st)); drawing = true; } else ctx.lineTo(p.x * width, y(p.st));
+      });
+      ctx.stroke();
+    };
+    plot(referenceContour, '#6366f1');
+    plot(live || userContour, '#f43f5e');
+  };
+
+  // Assigning the canvas size clears and reallocates it, so it only happens on mount and resize.
+  const resize = () => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.parentElement?.clientWidth || 300;
+    widthRef.current = width;
+    canvas.width = width * dpr; canvas.height = height * dpr;
+    canvas.style.width = `${width}px`; canvas.style.height = `${height}px`;
+  };
+
+  useEffect(() => {
+    const handleResize = () => { resize(); if (!liveStream) draw(null); };
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [liveStream, referenceContour, userContour, lineTimings, height]);
+
+  useEffect(() => { resize(); draw(null); }, [referenceContour, userContour, lineTimings, height, isEmpty]);
+
+  useEffect(() => {
+    if (!liveStream) return;
+    const ctx = getSharedAudioContext();
+    const source = ctx.createMediaStreamSource(liveStream);
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    const startedAt = ctx.currentTime;
+    livePointsRef.current = [];
+    const voiced: number[] = [];
+    let center = 1;
+    let frame = 0;
+    let ticks = 0;
+    // Live points are binned into one column per pixel as they arrive, so a frame costs the canvas width, not the take length.
+    // While recording the final length is unknown, so the axis starts at the reference duration and grows in steps past it.
+    let span = Math.max(duration, 1);
+    let columns: { sum: number; count: number }[] = [];
+    let lastColumn = -1;
+    const columnOf = (time: number) => Math.min(columns.length - 1, Math.floor((time / span) * columns.length));
+    const addToColumn = (p: { t: number; hz: number }) => {
+      const i = columnOf(p.t);
+      lastColumn = Math.max(lastColumn, i);
+      if (p.hz > 0) { columns[i].sum += p.hz; columns[i].count++; }
+    };
+    const columnCount = () => Math.max(1, Math.round(widthRef.current));
+    const rebin = () => {
+      columns = Array.from({ length: columnCount() }, () => ({ sum: 0, count: 0 }));
+      lastColumn = -1;
+      livePointsRef.current.forEach(addToColumn);
+    };
+    rebin();
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const point = { t: ctx.currentTime - startedAt, hz: estimateFramePitch(samples, ctx.sampleRate) };
+      livePointsRef.current.push(point);
+      if (point.hz > 0) voiced.push(point.hz);
+      // Early on every frame counts, since the first voiced frames move the median the most.
+      if (voiced.length < CENTER_REFRESH_FRAMES || ++ticks % CENTER_REFRESH_FRAMES === 0) center = median(voiced);
+      if (point.t >= span || columns.length !== columnCount()) {
+        span = Math.max(span, point.t * 1.25);
+        rebin();
+      } else addToColumn(point);
+      draw(columns.slice(0, lastColumn + 1).map((c, i) => ({ x: (i + 0.5) / columns.length, st: c.count ? 12 * Math.log2(c.sum / c.count / center) : null })));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => { cancelAnimationFrame(frame); source.disconnect(); };
+  }, [liveStream, duration]);
+
+  if (isEmpty) return null;
+  return (
+    <div className="relative rounded-lg border border-slate-800 bg-slate-900 overflow-hidden">
+      <div className="absolute top-1 left-2 text-[10px] font-bold uppercase tracking-wider text-slate-400 bg-slate-800/80 px-1 rounded z-10 flex items-center gap-2">
+        {t('prosody.intonation')} <span className="text-indigo-400">● {t('common.target')}</span> <span className="text-rose-400">● {t('common.you')}{liveStream ? ` ${t('common.live')}` : ''}</span>
+      </div>
+      <canvas ref={canvasRef} className="block" />
+    </div>
+  );
+};
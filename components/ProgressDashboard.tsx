@@ -0,0 +1,141 @@
+import React, { useMemo } from 'react';
+import { loadPracticeLog, getStreak, getDailyActivity, getScoreTrends, getCategoryTotals, getTotalMinutes, getWeekStart, DayActivity } from '../services/practiceLog';
+import { useI18n, I18n } from '../services/i18n';
+import { X, Flame, Trophy, Clock, TrendingUp, TrendingDown, BarChart3 } from 'lucide-react';
+
+interface ProgressDashboardProps {
+  onClose: () => void;
+}
+
+const HEATMAP_WEEKS = 16;
+const MAX_TRENDS = 6;
+const SPARK_POINTS = 12;
+
+const formatMinutes = ({ t, formatNumber }: I18n, minutes: number) => minutes < 60
+  ? t('progress.minutes', { count: Math.round(minutes) })
+  : t('progress.hours', { count: formatNumber(minutes / 60, { maximumFractionDigits: 1 }) });
+
+const heatClass = (day: DayActivity) => {
+  if (!day.sessions) return 'bg-slate-800/60';
+  if (day.minutes < 5) return 'bg-indigo-900';
+  if (day.minutes < 15) return 'bg-indigo-700';
+  if (day.minutes < 30) return 'bg-indigo-500';
+  return 'bg-indigo-300';
+};
+
+const Sparkline: React.FC<{ scores: number[] }> = ({ scores }) => {
+  const width = 96, height = 28;
+  if (scores.length < 2) return <div className="w-24 h-7 flex items-center"><div className="w-1.5 h-1.5 rounded-full bg-indigo-400 ml-auto"></div></div>;
+  const points = scores.map((s, i) => `${(i / (scores.length - 1)) * width},${height - (s / 100) * height}`).join(' ');
+  return (
+    <svg width={width} height={height} className="shrink-0 overflow-visible">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} strokeLinejoin="round" strokeLinecap="round" className="text-indigo-400" />
+    </svg>
+  );
+};
+
+export const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ onClose }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const log = useMemo(loadPracticeLog, []);
+  const streak = useMemo(() => getStreak(log), [log]);
+  const days = useMemo(() => getDailyActivity(log, HEATMAP_WEEKS), [log]);
+  const trends = useMemo(() => getScoreTrends(log).slice(0, MAX_TRENDS), [log]);
+  const categories = useMemo(() => getCategoryTotals(log), [log]);
+  const weekMinutes = useMemo(() => getTotalMinutes(log, getWeekStart()), [log]);
+  const weeks = useMemo(() => Array.from({ length: Math.ceil(days.length / 7) }, (_, w) => days.slice(w * 7, w * 7 + 7)), [days]);
+  const maxCategoryMinutes = Math.max(1, ...categories.map(c => c.minutes));
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+      <div className="bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-800 shadow-2xl animate-in zoom-in-95 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute right-6 top-6 text-slate-500 hover:text-white transition-colors"><X size={24} /></button>
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 rounded-2xl bg-indigo-600 text-white shadow-lg shadow-indigo-900/40"><BarChart3 size={24} /></div>
+          <h2 className="text-2xl font-black text-white">{t('progress.title')}</h2>
+        </div>
+
+        {log.length === 0 ? (
+          <p className="text-slate-400 text-sm leading-relaxed">{t('progress.empty')}</p>
+        ) : (
+          <div className="space-y-8">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-slate-950 border border-slate-800 rounded-2xl p-4">
+                <Flame size={16} className={streak.practisedToday ? 'text-orange-400' : 'text-slate-600'} />
+                <p className="text-2xl font-black text-white mt-2">{streak.current}</p>
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('progress.streak')}</p>
+              </div>
+              <div className="bg-slate-950 border border-slate-800 rounded-2xl p-4">
+                <Trophy size={16} className="text-amber-400" />
+                <p className="text-2xl font-black text-white mt-2">{streak.longest}</p>
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('progress.bestStreak')}</p>
+              </div>
+              <div className="bg-slate-950 border border-slate-800 rounded-2xl p-4">
+                <Clock size={16} className="text-indigo-400" />
+                <p className="text-2xl font-black text-white mt-2">{formatMinutes(i18n, weekMinutes)}</p>
+                <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('progress.lastWeek')}</p>
+              </div>
+            </div>
+            {!streak.practisedToday && streak.current > 0 && <p className="text-xs text-amber-400 -mt-5">{t('progress.keepStreak', { count: streak.current })}</p>}
+
+            <div className="space-y-3">
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('progress.activity')}</label>
+              <div className="flex gap-1 overflow-x-auto no-scrollbar">
+                {weeks.map((week, w) => (
+                  <div key={w} className="flex flex-col gap-1">
+                    {week.map(day => <div key={day.day} title={t('progress.dayTooltip', { date: i18n.formatDate(new Date(`${day.day}T00:00:00`), { month: 'short', day: 'numeric' }), sessions: day.sessions, time: formatMinutes(i18n, day.minutes) })} className={`w-4 h-4 rounded-sm ${heatClass(day)}`}></div>)}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {trends.length > 0 && (
+              <div className="space-y-3">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('progress.trends')}</label>
+                <div className="bg-slate-950 border border-slate-800 rounded-2xl divide-y divide-slate-800">
+                  {trends.map(trend => {
+                    const scores = trend.points.slice(-SPARK_POINTS).map(p => p.score);
+                    const last = trend.points[trend.points.length - 1];
+                    const change = trend.points.length > 1 ? last.score - trend.points[trend.points.length - 2].score : 0;
+                    return (
+                      <div key={trend.dialogueId} className="p-3 flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs font-bold text-white truncate">{trend.title}</p>
+                          <p className="text-[11px] text-slate-500">{t(`progress.activity.${last.activity}`)} · {t('progress.scoredCount', { count: trend.points.length })}</p>
+                        </div>
+                        <Sparkline scores={scores} />
+                        <div className="w-14 text-right">
+                          <p className="text-sm font-black text-white">{last.score}</p>
+                          {change !== 0 && (
+                            <p className={`text-[10px] font-bold flex items-center justify-end gap-0.5 ${change > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                              {change > 0 ? <TrendingUp size={10} /> : <TrendingDown size={10} />}{change > 0 ? '+' : ''}{change}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('progress.byCategory')}</label>
+              {categories.map(c => (
+                <div key={c.category} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="font-bold text-slate-300">{t(`category.${c.category}`)}</span>
+                    <span className="text-slate-500">{t('progress.categorySummary', { sessions: c.sessions, time: formatMinutes(i18n, c.minutes) })}{c.averageScore !== null && t('progress.average', { score: c.averageScore })}</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500" style={{ width: `${(c.minutes / maxCategoryMinutes) * 100}%` }}></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef } from 'react';
+import { ProsodyReport, ProsodyFinding } from '../types';
+import { useI18n, MessageKey } from '../services/i18n';
+import { Activity, Gauge, PauseCircle, TrendingUp } from 'lucide-react';
+
+const findingKey = ({ code, values }: ProsodyFinding): MessageKey => {
+  if (code === 'missingPauses') return values?.count === 1 ? 'prosody.finding.missingPause' : 'prosody.finding.missingPauses';
+  if (code === 'extraPauses') return values?.count === 1 ? 'prosody.finding.extraPause' : 'prosody.finding.extraPauses';
+  return `prosody.finding.${code}`;
+};
+
+const ContourOverlay: React.FC<{ report: ProsodyReport, height?: number }> = ({ report, height = 96 }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = canvasRef.current; if (!canvas) return;
+    const ctx = canvas.getContext('2d'); if (!ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.parentElement?.clientWidth || 300;
+    canvas.width = width * dpr; canvas.height = height * dpr;
+    canvas.style.width = `${width}px`; canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr); ctx.fillStyle = '#1e293b'; ctx.fillRect(0, 0, width, height);
+    const { reference, user, frameSeconds } = report.contour;
+    const values = [...reference, ...user].filter((v): v is number => v !== null);
+    const span = Math.max(6, ...values.map(Math.abs));
+    const x = (i: number) => (i / Math.max(1, reference.length - 1)) * width;
+    const y = (st: number) => height / 2 - (st / span) * (height / 2 - 6);
+    ctx.beginPath(); ctx.strokeStyle = '#334155'; ctx.moveTo(0, height / 2); ctx.lineTo(width, height / 2); ctx.stroke();
+    const pauseMark = (t: number, color: string) => { ctx.fillStyle = color; ctx.fillRect((t / frameSeconds / Math.max(1, reference.length - 1)) * width - 1, 0, 3, height); };
+    report.pauses.missing.forEach(t => pauseMark(t, 'rgba(251, 191, 36, 0.5)'));
+    report.pauses.extra.forEach(t => pauseMark(t, 'rgba(244, 63, 94, 0.35)'));
+    const draw = (contour: (number | null)[], color: string) => {
+      ctx.beginPath(); ctx.strokeStyle = color; ctx.lineWidth = 2; ctx.lineJoin = 'round';
+      let drawing = false;
+      contour.forEach((st, i) => {
+        if (st === null) { drawing = false; return; }
+        if (!drawing) { ctx.moveTo(x(i), y(st)); drawing = true; } else ctx.lineTo(x(i), y(st));
+      });
+      ctx.stroke();
+    };
+    draw(reference, '#6366f1');
+    draw(user, '#f43f5e');
+  }, [report, height]);
+  return (
+    <div className="relative rounded-lg border border-slate-800 bg-slate-900 overflow-hidden">
+      <div className="absolute top-1 left-2 text-[10px] font-bold uppercase tracking-wider text-slate-400 bg-slate-800/80 px-1 rounded z-10 flex items-center gap-2">
+        {t('prosody.pitch')} <span className="text-indigo-400">● {t('common.target')}</span> <span className="text-rose-400">● {t('common.you')}</span>
+      </div>
+      <canvas ref={canvasRef} className="block" />
+    </div>
+  );
+};
+
+export const ProsodyComparison: React.FC<{ report: ProsodyReport }> = ({ report }) => {
+  const { t } = useI18n();
+  return (
+    <div className="bg-slate-900 p-4 rounded-2xl border border-slate-800 space-y-4 animate-in fade-in">
+      <div className="text-emerald-400 font-bold text-xs uppercase tracking-widest flex items-center gap-2">
+        <Activity size={14} /> {t('prosody.title')}
+      </div>
+      <ContourOverlay report={report} />
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="bg-slate-950/50 rounded-xl p-3 border border-slate-800">
+          <TrendingUp size={14} className="mx-auto text-indigo-400 mb-1" />
+          <p className="text-lg font-black text-white">{report.intonationScore}%</p>
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{t('prosody.intonation')}</p>
+        </div>
+        <div className="bg-slate-950/50 rounded-xl p-3 border border-slate-800">
+          <Gauge size={14} className="mx-auto text-indigo-400 mb-1" />
+          <p className="text-lg font-black text-white">{report.pace.ratio.toFixed(2)}x</p>
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{t('prosody.timeTaken')}</p>
+        </div>
+        <div className="bg-slate-950/50 rounded-xl p-3 border border-slate-800">
+          <PauseCircle size={14} className="mx-auto text-indigo-400 mb-1" />
+          <p className="text-lg font-black text-white">{report.pauses.missing.length + report.pauses.extra.length}</p>
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{t('prosody.pauseIssues')}</p>
+        </div>
+      </div>
+      {report.findings.length > 0 && (
+        <ul className="space-y-2">
+          {report.findings.map((f, i) => <li key={i} className="text-slate-400 text-sm leading-relaxed">• {t(findingKey(f), f.values)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
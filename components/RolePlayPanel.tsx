@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AppState, DialogueLine, FeedbackResult, LineTiming, VisibilityMode } from '../types';
+import { PCMPlayer } from '../services/geminiService';
+import { MicRecorder } from '../services/audioRecorder';
+import { getSpeakers } from '../services/voiceCasting';
+import { ModelResponseError } from '../services/responseValidation';
+import { isAbortError, RequestTimeoutError } from '../services/requestManager';
+import { useI18n, MessageKey } from '../services/i18n';
+import { scoreBadgeClass } from './DiffTokens';
+import { ClozeText } from './ClozeText';
+import { Play, Square, Loader2, Mic, RotateCcw, ArrowRight, AlertCircle, Award, Volume2, Eye, EyeOff, Grid2X2 } from 'lucide-react';
+
+interface RolePlayPanelProps {
+  lines: DialogueLine[];
+  player: React.MutableRefObject<PCMPlayer | null>;
+  loadTimings: () => Promise<LineTiming[] | null>;
+  isLoadingAudio: boolean;
+  onStateChange: (state: AppState) => void;
+  scoreTurn: (audio: Blob, line: DialogueLine) => Promise<FeedbackResult>;
+  onComplete: (score: number) => void;
+}
+
+type RolePlayPhase = 'setup' | 'listen' | 'speak' | 'recording' | 'scoring' | 'scored' | 'done';
+
+interface RolePlayTurn {
+  score: number;
+  heard: string;
+}
+
+const VISIBILITY_ICONS: Record<VisibilityMode, React.ReactNode> = { visible: <Eye size={14} />, cloze: <Grid2X2 size={14} />, hidden: <EyeOff size={14} /> };
+
+// The learner takes one speaker's part: the other parts play from the dialogue audio, and every
+// line of the learner's is recorded and scored before the conversation carries on.
+export const RolePlayPanel: React.FC<RolePlayPanelProps> = ({ lines, player, loadTimings, isLoadingAudio, onStateChange, scoreTurn, onComplete }) => {
+  const { t } = useI18n();
+  const speakers = useMemo(() => getSpeakers(lines), [lines]);
+  const [role, setRole] = useState(speakers[0]);
+  const [visibility, setVisibility] = useState<VisibilityMode>('cloze');
+  const [phase, setPhase] = useState<RolePlayPhase>('setup');
+  const [index, setIndex] = useState(0);
+  const [turns, setTurns] = useState<Record<number, RolePlayTurn>>({});
+  const [error, setError] = useState<MessageKey | null>(null);
+  const recorderRef = useRef(new MicRecorder());
+  const runIdRef = useRef(0);
+  const wakeRef = useRef<(() => void) | null>(null);
+  const turnsRef = useRef(turns);
+  turnsRef.current = turns;
+  const currentRef = useRef<HTMLDivElement>(null);
+  const roleLines = lines.filter(l => l.speaker === role).length;
+  const speakerName = (speaker: string) => speaker || t('common.narrator');
+
+  useEffect(() => () => {
+    runIdRef.current++;
+    wakeRef.current?.();
+    recorderRef.current.cancel();
+    player.current?.stop();
+  }, []);
+
+  useEffect(() => { currentRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }, [index, phase]);
+
+  const playOnce = (timing: LineTiming) => new Promise<void>(resolve => {
+    wakeRef.current = () => { wakeRef.current = null; resolve(); };
+    player.current?.playSegment(timing, undefined, () => { wakeRef.current = null; resolve(); });
+  });
+
+  const averageScore = (done: Record<number, RolePlayTurn>) => {
+    const scores = Object.values(done).map(turn => turn.score);
+    return scores.length ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length) : 0;
+  };
+
+  // Plays the other parts from `from` until the learner's next line comes up or the dialogue ends.
+  const advance = async (from: number) => {
+    const runId = ++runIdRef.current;
+    const active = () => runIdRef.current === runId;
+    setError(null);
+    const timings = await loadTimings();
+    if (!active()) return;
+    if (!timings || !player.current) { setError('card.audioFailed'); setPhase('setup'); return; }
+    for (let i = from; i < lines.length; i++) {
+      setIndex(i);
+      if (lines[i].speaker === role) { setPhase('speak'); onStateChange(AppState.IDLE); return; }
+      setPhase('listen'); onStateChange(AppState.PLAYING_AUDIO);
+      if (timings[i]) await playOnce(timings[i]);
+      if (!active()) return;
+    }
+    setPhase('done'); onStateChange(AppState.IDLE);
+    onComplete(averageScore(turnsRef.current));
+  };
+
+  const start = () => { setTurns({}); turnsRef.current = {}; advance(0); };
+
+  const reset = () => {
+    runIdRef.current++;
+    player.current?.stop();
+    recorderRef.current.cancel();
+    wakeRef.current?.();
+    setPhase('setup'); setIndex(0); setTurns({}); setError(null);
+    onStateChange(AppState.IDLE);
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    try { await recorderRef.current.start(); } catch (e) { setError('errors.micDenied'); return; }
+    setPhase('recording'); onStateChange(AppState.RECORDING);
+  };
+
+  const stopRecording = async () => {
+    const runId = runIdRef.current;
+    const blob = await recorderRef.current.stop();
+    setPhase('scoring'); onStateChange(AppState.ANALYZING);
+    try {
+      const res = await scoreTurn(blob, lines[index]);
+      if (runIdRef.current !== runId) return;
+      setTurns(prev => ({ ...prev, [index]: { score: res.score, heard: res.transcription } }));
+      setPhase('scored');
+    } catch (e: any) {
+      if (isAbortError(e) || runIdRef.current !== runId) return;
+      setError(e instanceof ModelResponseError ? 'card.analysisRetry' : e.message === "MISSING_API_KEY" ? 'card.analysisMissingKey' : e instanceof RequestTimeoutError ? 'errors.timeout' : 'card.analysisFailed');
+      setPhase('speak');
+    } finally { onStateChange(AppState.IDLE); }
+  };
+
+  const renderLine = (line: DialogueLine, i: number) => {
+    const isMine = line.speaker === role;
+    const isCurrent = i === index && phase !== 'done';
+    const turn = turns[i];
+    const hideText = isMine && isCurrent && !turn;
+    return (
+      <div key={i} ref={isCurrent ? currentRef : undefined} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+        <div className={`max-w-[85%] p-4 rounded-2xl border space-y-2 transition-all ${isMine ? 'bg-indigo-950/40 border-indigo-500/30' : 'bg-slate-900 border-slate-800'} ${isCurrent ? 'ring-2 ring-indigo-500/50' : ''}`}>
+          <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+            {isMine ? t('common.you') : speakerName(line.speaker)}
+            {isCurrent && phase === 'listen' && <Volume2 size={12} className="text-indigo-400 animate-pulse" />}
+            {turn && <span className={`ml-auto text-[10px] font-black px-2 py-0.5 rounded-lg border normal-case tracking-normal ${scoreBadgeClass(turn.score)}`}>{turn.score}%</span>}
+          </div>
+          <p className="text-slate-200 leading-relaxed">
+            {!hideText ? line.text : visibility === 'visible' ? line.text : visibility === 'cloze' ? <ClozeText text={line.text} /> : <span className="italic text-slate-500">{t('roleplay.hiddenLine')}</span>}
+          </p>
+          {turn && <p className="text-xs text-slate-500"><span className="font-bold">{t('roleplay.heard')}:</span> {turn.heard}</p>}
+        </div>
+      </div>
+    );
+  };
+
+  if (phase === 'setup') {
+    return (
+      <div className="p-6 pb-24 space-y-6 max-w-2xl mx-auto min-h-full">
+        <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 shadow-xl space-y-6">
+          <div><h3 className="font-bold text-white text-lg">{t('roleplay.title')}</h3><p className="text-xs text-slate-500">{t('roleplay.body')}</p></div>
+          <div className="space-y-2 text-xs">
+            <span className="font-bold text-slate-500 uppercase tracking-widest">{t('roleplay.role')}</span>
+            <div className="flex flex-wrap gap-2">
+              {speakers.map(speaker => (
+                <button key={speaker} onClick={() => setRole(speaker)} className={`px-3 py-1.5 rounded-lg font-bold transition-colors ${role === speaker ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}>
+                  {speakerName(speaker)} <span className="opacity-60">· {lines.filter(l => l.speaker === speaker).length}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2 text-xs">
+            <span className="font-bold text-slate-500 uppercase tracking-widest">{t('roleplay.visibility')}</span>
+            <div className="flex gap-1 bg-slate-950/50 rounded-xl p-1 border border-slate-800">
+              {(['visible', 'cloze', 'hidden'] as VisibilityMode[]).map(m => (
+                <button key={m} onClick={() => setVisibility(m)} className={`flex-1 flex items-center justify-center gap-1.5 text-[10px] font-black py-1.5 rounded-lg ${visibility === m ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>
+                  {VISIBILITY_ICONS[m]} {t(`roleplay.visibility.${m}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          {error && <p className="text-xs text-red-400 flex items-center gap-1.5"><AlertCircle size={12} /> {t(error)}</p>}
+          <button onClick={start} className="w-full py-4 rounded-2xl font-bold bg-indigo-600 text-white flex items-center justify-center gap-2">
+            {isLoadingAudio ? <Loader2 className="animate-spin" size={16} /> : <Play size={16} fill="currentColor" />} {t('roleplay.start', { role: speakerName(role) })}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'done') {
+    return (
+      <div className="p-6 pb-24 space-y-4 max-w-2xl mx-auto min-h-full animate-in fade-in">
+        <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 shadow-xl flex items-center justify-between gap-4">
+          <div><h3 className="font-bold text-white text-lg">{t('roleplay.transcript')}</h3><p className="text-xs text-slate-500">{t('roleplay.summary', { count: roleLines, role: speakerName(role) })}</p></div>
+          <div className="bg-indigo-600/20 text-indigo-400 px-4 py-1.5 rounded-full border border-indigo-500/30 flex items-center gap-2 shrink-0">
+            <Award size={16} /> <span className="font-bold text-sm">{averageScore(turns)}%</span>
+          </div>
+        </div>
+        {lines.map(renderLine)}
+        <button onClick={reset} className="w-full py-4 rounded-2xl font-bold bg-slate-800 text-slate-300 flex items-center justify-center gap-2"><RotateCcw size={16} /> {t('roleplay.restart')}</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 pb-24 space-y-4 max-w-2xl mx-auto min-h-full">
+      <div className="bg-slate-900 p-4 rounded-2xl border border-slate-800 flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-sm font-bold text-white">{t('roleplay.playingAs', { role: speakerName(role) })}</p>
+          <p className="text-xs text-slate-500">{t('roleplay.progress', { done: Object.keys(turns).length, total: roleLines })}</p>
+        </div>
+        <button onClick={reset} title={t('roleplay.stop')} className="p-2 rounded-lg bg-slate-800 text-slate-400 hover:text-white"><Square size={16} /></button>
+      </div>
+
+      <div className="space-y-3">{lines.slice(0, index + 1).map(renderLine)}</div>
+
+      {error && <p className="text-xs text-red-400 flex items-center gap-1.5"><AlertCircle size={12} /> {t(error)}</p>}
+      {phase === 'listen' && <p className="text-center text-xs font-bold text-slate-500 uppercase tracking-widest">{t('roleplay.listening')}</p>}
+      {phase === 'speak' && (
+        <button onClick={startRecording} className="w-full py-4 rounded-2xl font-bold bg-indigo-600 text-white flex items-center justify-center gap-2"><Mic size={16} /> {t('roleplay.record')}</button>
+      )}
+      {phase === 'recording' && (
+        <button onClick={stopRecording} className="w-full py-4 rounded-2xl font-bold bg-red-600 text-white flex items-center justify-center gap-2 animate-pulse"><Square size={16} fill="currentColor" /> {t('roleplay.stopRecording')}</button>
+      )}
+      {phase === 'scoring' && (
+        <div className="w-full py-4 rounded-2xl font-bold bg-slate-800 text-slate-400 flex items-center justify-center gap-2"><Loader2 className="animate-spin" size={16} /> {t('roleplay.scoring')}</div>
+      )}
+      {phase === 'scored' && (
+        <div className="flex gap-3">
+          <button onClick={startRecording} className="flex-1 py-4 rounded-2xl font-bold bg-slate-800 text-slate-300 flex items-center justify-center gap-2"><RotateCcw size={16} /> {t('roleplay.retry')}</button>
+          <button autoFocus onClick={() => advance(index + 1)} className="flex-1 py-4 rounded-2xl font-bold bg-indigo-600 text-white flex items-center justify-center gap-2">{t('roleplay.next')} <ArrowRight size={16} /></button>
+        </div>
+      )}
+    </div>
+  );
+};
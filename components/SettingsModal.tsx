@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { getAudioCacheUsage, clearAudioCache, AudioCacheUsage } from '../services/audioCache';
+import { downloadBundle, validateBundle, findConflicts, importBundle, DataBundle, ImportMode, ConflictStrategy } from '../services/dataBundle';
+import { loadProviderConfig, saveProviderConfig, ProviderConfig, ProviderId, ModelRole, PROVIDER_LABELS, DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL } from '../services/aiProvider';
+import { needsApiKey } from '../services/geminiService';
+import { loadUsageLedger, clearUsageLedger, UsageLedger } from '../services/requestManager';
+import { AUDIO_CACHE } from '../constants';
+import { useI18n } from '../services/i18n';
+import { Key, Settings, X, HardDrive, Trash2, Loader2, Download, Upload, AlertCircle, Cpu, Gauge } from 'lucide-react';
+
+interface SettingsModalProps {
+  hasInternalKey: boolean;
+  onClose: () => void;
+}
+
+const MODEL_ROLES: ModelRole[] = ['structured', 'text', 'speech', 'audio'];
+
+const fieldClass = "w-full p-3 rounded-xl bg-slate-950 border border-slate-800 text-sm text-white outline-none focus:border-indigo-500 transition-all placeholder:text-slate-600";
+
+const formatTokens = (n: number) => n < 1000 ? String(n) : n < 1000000 ? `${(n / 1000).toFixed(1)}k` : `${(n / 1000000).toFixed(2)}M`;
+
+const formatBytes = (bytes: number) => bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ hasInternalKey, onClose }) => {
+  const { t } = useI18n();
+  const [tempKey, setTempKey] = useState(localStorage.getItem('GEMINI_API_KEY') || '');
+  const [cacheUsage, setCacheUsage] = useState<AudioCacheUsage | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ bundle: DataBundle; conflicts: string[] } | null>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [conflictStrategy, setConflictStrategy] = useState<ConflictStrategy>('keep');
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const [showModels, setShowModels] = useState(false);
+  const [usage, setUsage] = useState<UsageLedger>(loadUsageLedger);
+  const needsKey = needsApiKey();
+
+  useEffect(() => { getAudioCacheUsage().then(setCacheUsage); }, []);
+
+  const updateProvider = (patch: Partial<ProviderConfig>) => setProviderConfig(prev => ({ ...prev, ...patch }));
+
+  // Model overrides are per provider, so switching providers starts from that provider's defaults.
+  const selectProvider = (provider: ProviderId) => updateProvider({ provider, models: provider === loadProviderConfig().provider ? loadProviderConfig().models : {} });
+
+  const saveAiSettings = () => {
+    if (providerConfig.provider === 'gemini' && !hasInternalKey) localStorage.setItem('GEMINI_API_KEY', tempKey);
+    saveProviderConfig(providerConfig);
+    onClose();
+    window.location.reload(); // Reload to re-init services
+  };
+
+  const handleClearCache = async () => {
+    setIsClearing(true);
+    await clearAudioCache();
+    setCacheUsage(await getAudioCacheUsage());
+    setIsClearing(false);
+  };
+
+  const handleClearUsage = () => {
+    clearUsageLedger();
+    setUsage({});
+  };
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setPendingImport(null); setImportErrors([]);
+    let raw: unknown;
+    try { raw = JSON.parse(await file.text()); } catch (e) { setImportErrors([t('settings.invalidJson')]); return; }
+    const result = validateBundle(raw);
+    if (!result.bundle) { setImportErrors(result.errors); return; }
+    setPendingImport({ bundle: result.bundle, conflicts: findConflicts(result.bundle) });
+  };
+
+  const applyImport = () => {
+    if (!pendingImport) return;
+    importBundle(pendingImport.bundle, importMode, conflictStrategy);
+    window.location.reload(); // Reload so every component re-reads storage
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+      <div className="bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-800 shadow-2xl animate-in zoom-in-95 relative max-h-[90vh] overflow-y-auto">
+         <button onClick={onClose} className="absolute right-6 top-6 text-slate-500 hover:text-white transition-colors"><X size={24} /></button>
+         <div className="flex items-center gap-3 mb-6">
+            <div className="p-3 rounded-2xl bg-indigo-600 text-white shadow-lg shadow-indigo-900/40">{needsKey ? <Key size={24} /> : <Settings size={24} />}</div>
+            <h2 className="text-2xl font-black text-white">{needsKey ? t('settings.keyNeeded') : t('settings.title')}</h2>
+         </div>
+
+         <div className="space-y-3 mb-8">
+           <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1 flex items-center gap-1.5"><Cpu size={12} /> {t('settings.provider')}</label>
+           <div className="flex gap-1 bg-slate-950 rounded-xl p-1 border border-slate-800">
+             {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(p => (
+               <button key={p} onClick={() => selectProvider(p)} className={`flex-1 text-[11px] font-bold py-2 rounded-lg ${providerConfig.provider === p ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{PROVIDER_LABELS[p]}</button>
+             ))}
+           </div>
+
+           {providerConfig.provider === 'gemini' && !hasInternalKey && (
+             <>
+               <p className="text-slate-400 text-sm leading-relaxed">{t('settings.geminiIntro')}</p>
+               <input type="password" value={tempKey} onChange={(e) => setTempKey(e.target.value)} placeholder={t('settings.geminiPlaceholder')} className={fieldClass} />
+               <p className="text-[10px] text-slate-500 text-center uppercase tracking-widest">{t('settings.geminiPrivacy')}</p>
+             </>
+           )}
+
+           {providerConfig.provider === 'openai' && (
+             <>
+               <input value={providerConfig.baseUrl || ''} onChange={(e) => updateProvider({ baseUrl: e.target.value })} placeholder={DEFAULT_OPENAI_BASE_URL} className={fieldClass} />
+               <input type="password" value={providerConfig.apiKey || ''} onChange={(e) => updateProvider({ apiKey: e.target.value })} placeholder={t('settings.openAiKeyPlaceholder')} className={fieldClass} />
+               <p className="text-xs text-slate-500 leading-relaxed">{t('settings.openAiHelp')}</p>
+             </>
+           )}
+
+           {providerConfig.provider === 'mock' && (
+             <p className="text-xs text-slate-500 leading-relaxed">{t('settings.mockHelp')}</p>
+           )}
+
+           {providerConfig.provider !== 'mock' && (
+             <>
+               <button onClick={() => setShowModels(!showModels)} className="text-xs font-bold text-indigo-400 hover:text-indigo-300">{showModels ? t('settings.hideModels') : t('settings.chooseModels')}</button>
+               {showModels && (
+                 <div className="space-y-2">
+                   {MODEL_ROLES.map(role => (
+                     <div key={role} className="flex items-center gap-3">
+                       <span className="text-xs text-slate-500 w-40 shrink-0">{t(`settings.role.${role}`)}</span>
+                       <input value={providerConfig.models[role] || ''} onChange={(e) => updateProvider({ models: { ...providerConfig.models, [role]: e.target.value } })} placeholder={DEFAULT_MODELS[providerConfig.provider][role]} className={fieldClass} />
+                     </div>
+                   ))}
+                 </div>
+               )}
+             </>
+           )}
+
+           <button onClick={saveAiSettings} className="w-full py-4 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-500 transition-all">{needsKey ? t('settings.saveAndStart') : t('settings.saveAi')}</button>
+         </div>
+
+         <div className="space-y-3">
+           <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('settings.offlineAudio')}</label>
+           <div className="bg-slate-950 border border-slate-800 rounded-2xl p-4 flex items-center gap-4">
+             <HardDrive size={20} className="text-slate-500 shrink-0" />
+             <div className="flex-1 min-w-0">
+               {cacheUsage ? (
+                 <>
+                   <p className="text-sm font-bold text-white">{formatBytes(cacheUsage.bytes)} <span className="text-slate-500 font-medium">{t('settings.cacheOf', { max: formatBytes(AUDIO_CACHE.MAX_BYTES) })}</span></p>
+                   <p className="text-xs text-slate-500">{t('settings.cacheSummary', { clips: cacheUsage.clips, dialogues: cacheUsage.dialogues })}</p>
+                   <div className="mt-2 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                     <div className="h-full bg-indigo-500" style={{ width: `${Math.min(100, (cacheUsage.bytes / AUDIO_CACHE.MAX_BYTES) * 100)}%` }}></div>
+                   </div>
+                 </>
+               ) : <Loader2 size={16} className="animate-spin text-slate-500" />}
+             </div>
+             <button onClick={handleClearCache} disabled={isClearing || !cacheUsage?.clips} className="p-2 rounded-lg text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors">
+               {isClearing ? <Loader2 size={18} className="animate-spin" /> : <Trash2 size={18} />}
+             </button>
+           </div>
+         </div>
+
+         <div className="space-y-3 mt-8">
+           <div className="flex items-center justify-between px-1">
+             <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-1.5"><Gauge size={12} /> {t('settings.usage')}</label>
+             {Object.keys(usage).length > 0 && <button onClick={handleClearUsage} className="text-[10px] font-bold text-slate-500 hover:text-red-400 uppercase tracking-widest">{t('settings.usageReset')}</button>}
+           </div>
+           {Object.keys(usage).length === 0 ? (
+             <p className="text-xs text-slate-500 px-1">{t('settings.usageEmpty')}</p>
+           ) : (
+             <div className="bg-slate-950 border border-slate-800 rounded-2xl divide-y divide-slate-800">
+               {Object.entries(usage).sort(([, a], [, b]) => b.lastUsedAt - a.lastUsedAt).map(([model, u]) => (
+                 <div key={model} className="p-3">
+                   <p className="text-xs font-bold text-white truncate">{model}</p>
+                   <p className="text-[11px] text-slate-500">
+                     {t('settings.usageCalls', { calls: u.calls })}{u.failures > 0 && <span className="text-amber-400"> · {t('settings.usageFailed', { failures: u.failures })}</span>} · {t('settings.usageTokens', { input: formatTokens(u.inputTokens), output: formatTokens(u.outputTokens) })}
+                   </p>
+                 </div>
+               ))}
+             </div>
+           )}
+         </div>
+
+         <div className="space-y-3 mt-8">
+           <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest px-1">{t('settings.backup')}</label>
+           <div className="flex gap-3">
+             <button onClick={() => downloadBundle()} className="flex-1 py-3 rounded-xl bg-slate-800 text-slate-300 font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-700 transition-all"><Download size={16} /> {t('settings.export')}</button>
+             <label className="flex-1 py-3 rounded-xl bg-slate-800 text-slate-300 font-bold text-sm flex items-center justify-center gap-2 hover:bg-slate-700 transition-all cursor-pointer">
+               <Upload size={16} /> {t('settings.import')}
+               <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { handleImportFile(e.target.files?.[0]); e.target.value = ''; }} />
+             </label>
+           </div>
+           {importErrors.length > 0 && (
+             <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-xl space-y-1">
+               {importErrors.slice(0, 5).map((err, i) => <p key={i} className="text-red-400 text-xs flex items-start gap-2"><AlertCircle size={12} className="mt-0.5 shrink-0" /> {err}</p>)}
+               {importErrors.length > 5 && <p className="text-red-400/70 text-xs">{t('settings.moreErrors', { count: importErrors.length - 5 })}</p>}
+             </div>
+           )}
+           {pendingImport && (
+             <div className="bg-slate-950 border border-slate-800 rounded-2xl p-4 space-y-4">
+               <p className="text-sm text-slate-300">{t('settings.importSummary', { dialogues: pendingImport.bundle.dialogues.length, conflicts: pendingImport.conflicts.length })}</p>
+               <div className="flex gap-1 bg-slate-900 rounded-xl p-1 border border-slate-800">
+                 {(['merge', 'replace'] as ImportMode[]).map(m => <button key={m} onClick={() => setImportMode(m)} className={`flex-1 text-xs font-bold py-2 rounded-lg ${importMode === m ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{t(`settings.mode.${m}`)}</button>)}
+               </div>
+               {importMode === 'merge' && pendingImport.conflicts.length > 0 && (
+                 <select value={conflictStrategy} onChange={(e) => setConflictStrategy(e.target.value as ConflictStrategy)} className="w-full p-3 rounded-xl bg-slate-900 border border-slate-800 text-sm text-slate-300 outline-none">
+                   <option value="keep">{t('settings.conflict.keep')}</option>
+                   <option value="overwrite">{t('settings.conflict.overwrite')}</option>
+                   <option value="duplicate">{t('settings.conflict.duplicate')}</option>
+                 </select>
+               )}
+               {importMode === 'replace' && <p className="text-xs text-amber-400">{t('settings.replaceWarning')}</p>}
+               <button onClick={applyImport} className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold text-sm hover:bg-indigo-500 transition-all">{t('settings.applyImport')}</button>
+             </div>
+           )}
+         </div>
+      </div>
+    </div>
+  );
+};
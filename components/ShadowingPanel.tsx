@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState, DialogueLine, LineTiming, ShadowSettings } from '../types';
+import { PCMPlayer } from '../services/geminiService';
+import { MicRecorder } from '../services/audioRecorder';
+import { DEFAULT_SHADOW_SETTINGS, STORAGE_KEYS } from '../constants';
+import { useI18n } from '../services/i18n';
+import { Play, Square, Loader2, Mic, Ear, Minus, Plus } from 'lucide-react';
+
+interface ShadowingPanelProps {
+  lines: DialogueLine[];
+  player: React.MutableRefObject<PCMPlayer | null>;
+  loadTimings: () => Promise<LineTiming[] | null>;
+  isLoadingAudio: boolean;
+  onStateChange: (state: AppState) => void;
+}
+
+type ShadowPhase = 'idle' | 'listen' | 'repeat';
+
+const loadSettings = (): ShadowSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.SHADOW_SETTINGS);
+    return saved ? { ...DEFAULT_SHADOW_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SHADOW_SETTINGS;
+  } catch (e) { return DEFAULT_SHADOW_SETTINGS; }
+};
+
+export const ShadowingPanel: React.FC<ShadowingPanelProps> = ({ lines, player, loadTimings, isLoadingAudio, onStateChange }) => {
+  const { t } = useI18n();
+  const [settings, setSettings] = useState<ShadowSettings>(loadSettings);
+  const [phase, setPhase] = useState<ShadowPhase>('idle');
+  const [currentLine, setCurrentLine] = useState(-1);
+  const [currentRep, setCurrentRep] = useState(0);
+  const [gapSeconds, setGapSeconds] = useState(0);
+  const [attempts, setAttempts] = useState<Record<number, string[]>>({});
+  const recorderRef = useRef(new MicRecorder());
+  // Bumped on every start/stop so a superseded loop notices and bails out.
+  const runIdRef = useRef(0);
+  // Resolves whatever the loop is currently awaiting, so stop() never leaves it hanging.
+  const wakeRef = useRef<(() => void) | null>(null);
+  const attemptsRef = useRef(attempts);
+  attemptsRef.current = attempts;
+
+  useEffect(() => { localStorage.setItem(STORAGE_KEYS.SHADOW_SETTINGS, JSON.stringify(settings)); }, [settings]);
+
+  useEffect(() => () => {
+    runIdRef.current++;
+    wakeRef.current?.();
+    recorderRef.current.cancel();
+    Object.values(attemptsRef.current).flat().forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const wait = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(() => { wakeRef.current = null; resolve(); }, ms);
+    wakeRef.current = () => { clearTimeout(timer); wakeRef.current = null; resolve(); };
+  });
+
+  const playOnce = (timing: LineTiming) => new Promise<void>(resolve => {
+    wakeRef.current = () => { wakeRef.current = null; resolve(); };
+    player.current?.playSegment(timing, undefined, () => { wakeRef.current = null; resolve(); });
+  });
+
+  const finish = () => {
+    player.current?.setRate(1.0);
+    setPhase('idle'); setCurrentLine(-1); setCurrentRep(0);
+    onStateChange(AppState.IDLE);
+  };
+
+  const start = async (fromLine: number = 0) => {
+    const runId = ++runIdRef.current;
+    const active = () => runIdRef.current === runId;
+    const timings = await loadTimings();
+    if (!timings || !player.current || !active()) return;
+    player.current.setRate(settings.playbackRate);
+    for (let i = fromLine; i < timings.length && active(); i++) {
+      setCurrentLine(i);
+      for (let rep = 0; rep < settings.repeatCount && active(); rep++) {
+        setCurrentRep(rep); setPhase('listen'); onStateChange(AppState.PLAYING_AUDIO);
+        await playOnce(timings[i]);
+        if (!active()) break;
+        const gap = ((timings[i].end - timings[i].start) / settings.playbackRate) * settings.gapMultiplier;
+        setGapSeconds(gap); setPhase('repeat');
+        let recording = false;
+        if (settings.recordAttempts) {
+          try { await recorderRef.current.start(); recording = true; onStateChange(AppState.RECORDING); } catch (e) {}
+        }
+        await wait(gap * 1000);
+        if (recording) {
+          const blob = await recorderRef.current.stop();
+          if (active() && blob.size > 0) setAttempts(prev => ({ ...prev, [i]: [...(prev[i] || []), URL.createObjectURL(blob)] }));
+        }
+      }
+    }
+    if (active()) finish();
+  };
+
+  const stop = () => {
+    runIdRef.current++;
+    player.current?.stop();
+    recorderRef.current.cancel();
+    wakeRef.current?.();
+    finish();
+  };
+
+  const update = (patch: Partial<ShadowSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+  const isRunning = phase !== 'idle';
+
+  return (
+    <div className="p-6 pb-24 space-y-6 max-w-2xl mx-auto min-h-full">
+      <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 shadow-xl space-y-6">
+        <div className="flex items-center justify-between">
+          <div><h3 className="font-bold text-white text-lg">{t('shadow.title')}</h3><p className="text-xs text-slate-500">{t('shadow.body')}</p></div>
+          <button onClick={() => isRunning ? stop() : start()} className={`w-14 h-14 rounded-full flex items-center justify-center ${isRunning ? 'bg-indigo-500/20 text-indigo-400 ring-2 ring-indigo-500/50' : 'bg-indigo-600 text-white'}`}>
+            {isLoadingAudio ? <Loader2 className="animate-spin" size={24} /> : isRunning ? <Square size={22} fill="currentColor" /> : <Play size={24} fill="currentColor" className="ml-1" />}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 text-xs">
+          <div className="space-y-2">
+            <span className="font-bold text-slate-500 uppercase tracking-widest">{t('shadow.repeats')}</span>
+            <div className="flex items-center gap-2">
+              <button disabled={isRunning} onClick={() => update({ repeatCount: Math.max(1, settings.repeatCount - 1) })} className="p-1.5 rounded-lg bg-slate-800 text-slate-400 disabled:opacity-40"><Minus size={14} /></button>
+              <span className="font-black text-white w-6 text-center">{settings.repeatCount}</span>
+              <button disabled={isRunning} onClick={() => update({ repeatCount: Math.min(5, settings.repeatCount + 1) })} className="p-1.5 rounded-lg bg-slate-800 text-slate-400 disabled:opacity-40"><Plus size={14} /></button>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <span className="font-bold text-slate-500 uppercase tracking-widest">{t('shadow.record')}</span>
+            <button disabled={isRunning} onClick={() => update({ recordAttempts: !settings.recordAttempts })} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg font-bold disabled:opacity-40 ${settings.recordAttempts ? 'bg-red-600/20 text-red-400 border border-red-500/30' : 'bg-slate-800 text-slate-400'}`}>
+              <Mic size={14} /> {settings.recordAttempts ? t('common.on') : t('common.off')}
+            </button>
+          </div>
+          <div className="space-y-2">
+            <span className="font-bold text-slate-500 uppercase tracking-widest">{t('shadow.pause')}</span>
+            <div className="flex gap-1 bg-slate-950/50 rounded-xl p-1 border border-slate-800">
+              {[0.8, 1.2, 1.5, 2.0].map(g => <button key={g} disabled={isRunning} onClick={() => update({ gapMultiplier: g })} className={`flex-1 text-[10px] font-black py-1.5 rounded-lg ${settings.gapMultiplier === g ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{g}x</button>)}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <span className="font-bold text-slate-500 uppercase tracking-widest">{t('shadow.speed')}</span>
+            <div className="flex gap-1 bg-slate-950/50 rounded-xl p-1 border border-slate-800">
+              {[0.75, 0.9, 1.0].map(r => <button key={r} disabled={isRunning} onClick={() => update({ playbackRate: r })} className={`flex-1 text-[10px] font-black py-1.5 rounded-lg ${settings.playbackRate === r ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{r}x</button>)}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {lines.map((l, i) => (
+          <div key={i} onClick={() => !isRunning && start(i)} className={`p-5 rounded-2xl border-l-4 transition-all cursor-pointer ${currentLine === i ? 'border-indigo-500 bg-slate-800 shadow-xl' : 'border-transparent bg-slate-900 hover:bg-slate-800/60'}`}>
+            <div className="flex items-center justify-between mb-2">
+              {l.speaker && !['Narrator', 'Text', 'Article'].includes(l.speaker) ? <span className="text-xs font-bold uppercase text-slate-500">{l.speaker}</span> : <span />}
+              {currentLine === i && (
+                <span className={`text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5 ${phase === 'repeat' ? 'text-emerald-400' : 'text-indigo-400'}`}>
+                  {phase === 'repeat' ? <><Mic size={12} className="animate-pulse" /> {t('shadow.yourTurn', { seconds: gapSeconds.toFixed(1) })}</> : <><Ear size={12} /> {t('shadow.listen')}</>}
+                  <span className="text-slate-500">{currentRep + 1}/{settings.repeatCount}</span>
+                </span>
+              )}
+            </div>
+            <p className="text-lg text-slate-200 leading-relaxed font-medium">{l.text}</p>
+            {attempts[i]?.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {attempts[i].map((url, n) => (
+                  <button key={url} onClick={(e) => { e.stopPropagation(); new Audio(url).play(); }} className="px-2.5 py-1 rounded-lg bg-slate-950 border border-slate-700 text-[10px] font-bold text-slate-400 hover:text-white flex items-center gap-1">
+                    <Play size={10} fill="currentColor" /> {t('shadow.take', { n: n + 1 })}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from 'react';
+import { PLAYBACK_RATE } from '../constants';
+import { useI18n } from '../services/i18n';
+import { Gauge } from 'lucide-react';
+
+interface SpeedControlProps {
+  value: number;
+  onChange: (rate: number) => void;
+}
+
+// Each new rate re-renders the stretched audio, so the slider only commits when it is released.
+export const SpeedControl: React.FC<SpeedControlProps> = ({ value, onChange }) => {
+  const { t, formatNumber } = useI18n();
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => { setDraft(value); }, [value]);
+
+  const commit = () => { if (draft !== value) onChange(draft); };
+
+  return (
+    <div className="flex items-center gap-3 w-full" title={t('common.speed')}>
+      <Gauge size={16} className="text-slate-500 shrink-0" />
+      <input type="range" min={PLAYBACK_RATE.MIN} max={PLAYBACK_RATE.MAX} step={PLAYBACK_RATE.STEP} value={draft}
+        onChange={(e) => setDraft(parseFloat(e.target.value))} onPointerUp={commit} onKeyUp={commit} onBlur={commit}
+        className="flex-1 h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+      <button onClick={() => onChange(1)} disabled={value === 1} className="w-12 text-right text-[10px] font-black text-slate-400 hover:text-white disabled:hover:text-slate-400 tabular-nums">
+        {formatNumber(draft, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}×
+      </button>
+    </div>
+  );
+};
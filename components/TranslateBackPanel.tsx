@@ -0,0 +1,99 @@
+import React, { useState, useMemo } from 'react';
+import { DialogueLine, Language } from '../types';
+import { getDictationDiff } from '../services/dictationDiff';
+import { DiffTokens, scoreBadgeClass } from './DiffTokens';
+import { useI18n, MessageKey } from '../services/i18n';
+import { Languages, Loader2, AlertCircle, Award } from 'lucide-react';
+
+interface TranslateBackPanelProps {
+  lines: DialogueLine[];
+  language: Language;
+  isTranslating: boolean;
+  error: MessageKey | null;
+  onTranslate: () => void;
+  onChecked: (score: number) => void;
+}
+
+interface TranslationPrompt {
+  index: number;
+  text: string;
+  translation: string;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Each answer is diffed against its own line; longer lines weigh more, matching how dictation scores the whole text.
+const gradeAnswers = (prompts: TranslationPrompt[], answers: Record<number, string>) => {
+  const results = prompts.map(p => getDictationDiff(answers[p.index] || '', p.text));
+  const total = prompts.reduce((sum, p) => sum + countWords(p.text), 0);
+  const score = Math.round(results.reduce((sum, r, i) => sum + r.score * countWords(prompts[i].text), 0) / Math.max(1, total));
+  return { results, score };
+};
+
+export const TranslateBackPanel: React.FC<TranslateBackPanelProps> = ({ lines, language, isTranslating, error, onTranslate, onChecked }) => {
+  const { t } = useI18n();
+  const [answers, setAnswers] = useState<Record<number, string>>({});
+  const [showResults, setShowResults] = useState(false);
+
+  // Only lines that actually got a translation are part of the exercise.
+  const prompts = useMemo<TranslationPrompt[]>(() => lines.map((l, i) => ({ index: i, text: l.text, translation: l.translations?.[language] || '' })).filter(p => p.translation), [lines, language]);
+  const hasMissing = lines.some(l => !l.translations?.[language]);
+  const graded = useMemo(() => showResults ? gradeAnswers(prompts, answers) : null, [showResults, prompts, answers]);
+
+  const handleCheck = () => {
+    if (showResults) { setShowResults(false); return; }
+    if (!prompts.some(p => (answers[p.index] || '').trim())) return;
+    setShowResults(true);
+    onChecked(gradeAnswers(prompts, answers).score);
+  };
+
+  return (
+    <div className="p-6 pb-24 space-y-6 max-w-2xl mx-auto min-h-full">
+      <div className="bg-slate-900 p-6 rounded-3xl border border-slate-800 shadow-xl flex items-center justify-between gap-4">
+        <div><h3 className="font-bold text-white text-lg">{t('translate.title')}</h3><p className="text-xs text-slate-500">{t('translate.body')}</p></div>
+        {graded && (
+          <div className="bg-indigo-600/20 text-indigo-400 px-4 py-1.5 rounded-full border border-indigo-500/30 flex items-center gap-2 shrink-0">
+            <Award size={16} /> <span className="font-bold text-sm">{t('translate.result', { score: graded.score })}</span>
+          </div>
+        )}
+      </div>
+
+      {hasMissing && (
+        <div className="bg-slate-900 p-8 rounded-3xl border border-dashed border-slate-700 flex flex-col items-center text-center gap-4">
+          <Languages size={32} className="text-indigo-400" />
+          <p className="text-slate-400 text-sm max-w-xs">{t('translate.generateBody')}</p>
+          <button onClick={onTranslate} disabled={isTranslating} className="px-6 py-3 rounded-full bg-indigo-600 text-white font-bold text-sm flex items-center gap-2 hover:bg-indigo-500 transition-all disabled:opacity-50">
+            {isTranslating ? <><Loader2 className="animate-spin" size={16} /> {t('card.translating')}</> : <><Languages size={16} /> {t('translate.generate')}</>}
+          </button>
+        </div>
+      )}
+
+      {prompts.length > 0 && (
+        <>
+          {prompts.map((p, i) => (
+            <div key={p.index} className="bg-slate-900 p-5 rounded-2xl border border-slate-800 space-y-3">
+              <p className="text-base text-slate-200 font-medium leading-relaxed">{p.translation}</p>
+              {!graded ? (
+                <textarea value={answers[p.index] || ''} onChange={(e) => setAnswers(prev => ({ ...prev, [p.index]: e.target.value }))} rows={2} placeholder={t('translate.placeholder')} className="w-full p-3 rounded-xl border border-slate-300 text-slate-900 bg-white outline-none focus:border-indigo-500 transition-all leading-relaxed font-medium resize-none" />
+              ) : (
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 flex flex-wrap gap-x-2 gap-y-2 leading-relaxed">
+                    <DiffTokens tokens={graded.results[i].tokens} />
+                  </div>
+                  <span className={`shrink-0 text-[10px] font-black px-2 py-1 rounded-lg border ${scoreBadgeClass(graded.results[i].score)}`}>{graded.results[i].score}%</span>
+                </div>
+              )}
+            </div>
+          ))}
+          <button onClick={handleCheck} className={`w-full py-4 rounded-2xl font-bold ${showResults ? 'bg-slate-800 text-slate-300' : 'bg-indigo-600 text-white'}`}>{showResults ? t('translate.retry') : t('translate.check')}</button>
+        </>
+      )}
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 p-3 rounded-xl flex items-center justify-center gap-2 text-red-400 text-xs font-medium">
+          <AlertCircle size={14} className="shrink-0" /> {t(error)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { VocabEntry } from '../types';
+import { loadVocabulary, removeVocabEntry, searchVocabulary, sortVocabulary, toCsv, toAnkiTsv, VocabSort } from '../services/vocabulary';
+import { downloadBlob } from '../services/dataBundle';
+import { fetchLineAudio, PCMPlayer } from '../services/geminiService';
+import { isAbortError } from '../services/requestManager';
+import { DEFAULT_VOICE } from '../constants';
+import { useI18n } from '../services/i18n';
+import { X, BookMarked, Search, Trash2, Download, Layers, Volume2, Loader2, ChevronLeft, ChevronRight, AlertCircle } from 'lucide-react';
+
+interface VocabularyNotebookProps {
+  onClose: () => void;
+}
+
+const SORTS: VocabSort[] = ['recent', 'alphabetical', 'dialogue'];
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const HighlightedSentence: React.FC<{ sentence: string; word: string }> = ({ sentence, word }) => (
+  <>{sentence.split(/(\s+)/).map((part, i) => part.replace(/[.,!?;:"()]/g, '').toLowerCase() === word.toLowerCase() ? <b key={i} className="text-indigo-300 not-italic">{part}</b> : part)}</>
+);
+
+// Flipping a card to its back plays the source sentence in the voice of the speaker who said it.
+const Flashcards: React.FC<{ entries: VocabEntry[]; onExit: () => void }> = ({ entries, onExit }) => {
+  const { t } = useI18n();
+  const [deck] = useState(() => shuffle(entries));
+  const [index, setIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  const [audioFailed, setAudioFailed] = useState(false);
+  const playerRef = useRef<PCMPlayer | null>(null);
+  const requestsRef = useRef(new AbortController());
+  const card = deck[index];
+
+  useEffect(() => {
+    playerRef.current = new PCMPlayer();
+    const requests = new AbortController();
+    requestsRef.current = requests;
+    return () => { playerRef.current?.stop(); playerRef.current = null; requests.abort(); };
+  }, []);
+
+  const playSentence = async (entry: VocabEntry) => {
+    setIsLoadingAudio(true); setAudioFailed(false);
+    try {
+      const pcm = await fetchLineAudio(entry.dialogueId, entry.sentence, entry.voice || DEFAULT_VOICE, requestsRef.current.signal);
+      if (!playerRef.current) return;
+      playerRef.current.stop();
+      playerRef.current.load(pcm);
+      playerRef.current.play();
+    } catch (e) {
+      if (!isAbortError(e)) setAudioFailed(true);
+    } finally { setIsLoadingAudio(false); }
+  };
+
+  const flip = () => {
+    if (!flipped) playSentence(card);
+    setFlipped(!flipped);
+  };
+
+  const move = (delta: number) => {
+    playerRef.current?.stop();
+    setFlipped(false); setAudioFailed(false);
+    setIndex(i => (i + delta + deck.length) % deck.length);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <button onClick={onExit} className="text-xs font-bold text-slate-500 hover:text-white flex items-center gap-1"><ChevronLeft size={14} /> {t('vocab.backToList')}</button>
+        <span className="text-xs font-bold text-slate-500">{t('vocab.cardCount', { current: index + 1, total: deck.length })}</span>
+      </div>
+      <div onClick={flip} className="min-h-[16rem] bg-slate-950 border border-slate-800 rounded-3xl p-6 flex flex-col items-center justify-center text-center cursor-pointer hover:border-slate-700 transition-all">
+        <p className="text-3xl font-black text-white mb-4">{card.word}</p>
+        {!flipped ? (
+          <p className="text-xs text-slate-500">{t('vocab.flip')}</p>
+        ) : (
+          <div className="space-y-4 animate-in fade-in">
+            <p className="text-slate-300 leading-relaxed">{card.definition}</p>
+            <p className="text-sm text-slate-400 italic leading-relaxed">"<HighlightedSentence sentence={card.sentence} word={card.word} />"</p>
+            <p className="text-[10px] font-bold text-slate-600 uppercase tracking-widest">{card.dialogueTitle}</p>
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between">
+        <button onClick={() => move(-1)} title={t('vocab.previous')} className="p-3 rounded-full bg-slate-800 text-slate-300 hover:bg-slate-700 transition-all"><ChevronLeft size={18} /></button>
+        <button onClick={() => playSentence(card)} disabled={isLoadingAudio} title={t('vocab.playSentence')} className="px-5 py-3 rounded-full bg-indigo-600 text-white font-bold text-sm flex items-center gap-2 hover:bg-indigo-500 transition-all disabled:opacity-50">
+          {isLoadingAudio ? <Loader2 className="animate-spin" size={16} /> : <Volume2 size={16} />} {t('vocab.playSentence')}
+        </button>
+        <button onClick={() => move(1)} title={t('vocab.next')} className="p-3 rounded-full bg-slate-800 text-slate-300 hover:bg-slate-700 transition-all"><ChevronRight size={18} /></button>
+      </div>
+      {audioFailed && <p className="text-xs text-red-400 flex items-center justify-center gap-1.5"><AlertCircle size={12} /> {t('vocab.audioFailed')}</p>}
+    </div>
+  );
+};
+
+export const VocabularyNotebook: React.FC<VocabularyNotebookProps> = ({ onClose }) => {
+  const { t, formatDate } = useI18n();
+  const [vocabulary, setVocabulary] = useState<VocabEntry[]>(loadVocabulary);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<VocabSort>('recent');
+  const [isReviewing, setIsReviewing] = useState(false);
+  const visible = useMemo(() => sortVocabulary(searchVocabulary(vocabulary, query), sort), [vocabulary, query, sort]);
+
+  const handleDelete = (id: string) => {
+    removeVocabEntry(id);
+    setVocabulary(loadVocabulary());
+  };
+
+  // Exports follow the current search and sort, so a filtered list can be exported on its own.
+  const exportCsv = () => {
+    // The byte-order mark makes spreadsheet apps read the file as UTF-8.
+    downloadBlob(new Blob(['\ufeff', toCsv(visible)], { type: 'text/csv;charset=utf-8' }), `linguaflow-vocabulary-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const exportAnki = () => {
+    downloadBlob(new Blob([toAnkiTsv(visible)], { type: 'text/tab-separated-values;charset=utf-8' }), `linguaflow-anki-${new Date().toISOString().slice(0, 10)}.txt`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+      <div className="bg-slate-900 w-full max-w-md rounded-3xl p-8 border border-slate-800 shadow-2xl animate-in zoom-in-95 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute right-6 top-6 text-slate-500 hover:text-white transition-colors"><X size={24} /></button>
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 rounded-2xl bg-indigo-600 text-white shadow-lg shadow-indigo-900/40"><BookMarked size={24} /></div>
+          <div>
+            <h2 className="text-2xl font-black text-white">{t('vocab.title')}</h2>
+            <p className="text-xs text-slate-500">{t('vocab.count', { count: vocabulary.length })}</p>
+          </div>
+        </div>
+
+        {vocabulary.length === 0 ? (
+          <p className="text-slate-400 text-sm leading-relaxed">{t('vocab.empty')}</p>
+        ) : isReviewing ? (
+          <Flashcards entries={visible.length ? visible : vocabulary} onExit={() => setIsReviewing(false)} />
+        ) : (
+          <div className="space-y-4">
+            <div className="relative">
+              <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+              <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t('vocab.searchPlaceholder')} className="w-full pl-9 pr-3 py-2.5 rounded-xl bg-slate-950 border border-slate-800 text-sm text-white outline-none focus:border-indigo-500 transition-all placeholder:text-slate-600" />
+            </div>
+            <div className="flex items-center gap-2">
+              <select value={sort} onChange={(e) => setSort(e.target.value as VocabSort)} className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-2 py-2 text-xs font-bold text-slate-300 outline-none">
+                {SORTS.map(s => <option key={s} value={s}>{t(`vocab.sort.${s}`)}</option>)}
+              </select>
+              <button onClick={exportCsv} disabled={!visible.length} className="px-3 py-2 rounded-lg bg-slate-800 text-slate-300 text-xs font-bold flex items-center gap-1.5 hover:bg-slate-700 disabled:opacity-40"><Download size={12} /> {t('vocab.exportCsv')}</button>
+              <button onClick={exportAnki} disabled={!visible.length} className="px-3 py-2 rounded-lg bg-slate-800 text-slate-300 text-xs font-bold flex items-center gap-1.5 hover:bg-slate-700 disabled:opacity-40"><Download size={12} /> {t('vocab.exportAnki')}</button>
+            </div>
+            <button onClick={() => setIsReviewing(true)} disabled={!visible.length} className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold text-sm flex items-center justify-center gap-2 hover:bg-indigo-500 transition-all disabled:opacity-50"><Layers size={16} /> {t('vocab.review')}</button>
+
+            {visible.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-6">{t('vocab.noMatches')}</p>
+            ) : (
+              <div className="bg-slate-950 border border-slate-800 rounded-2xl divide-y divide-slate-800">
+                {visible.map(entry => (
+                  <div key={entry.id} className="p-4 flex items-start gap-3">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm font-black text-white">{entry.word}</p>
+                      <p className="text-xs text-slate-300 leading-relaxed">{entry.definition}</p>
+                      <p className="text-xs text-slate-500 italic leading-relaxed">"<HighlightedSentence sentence={entry.sentence} word={entry.word} />"</p>
+                      <p className="text-[10px] font-bold text-slate-600 uppercase tracking-widest truncate">{entry.dialogueTitle} · {formatDate(entry.addedAt, { month: 'short', day: 'numeric' })}</p>
+                    </div>
+                    <button onClick={() => handleDelete(entry.id)} title={t('vocab.delete')} className="p-1.5 text-slate-600 hover:text-red-400 transition-colors shrink-0"><Trash2 size={14} /></button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
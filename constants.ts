@@ -1,4 +1,4 @@
-import { Dialogue } from './types';
+import { Dialogue, ShadowSettings } from './types';
 
 export const DIALOGUES: Dialogue[] = [
   {
@@ -115,9 +115,49 @@ export const getRandomImageForCategory = (category: string) => {
   return images[randomIndex];
 };
 
+export const TTS_VOICES: { name: string; style: string }[] = [
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Zephyr', style: 'Bright' }
+];
+
+export const DEFAULT_VOICE = 'Fenrir';
+
+// Generated TTS is cached in IndexedDB; raw 24kHz PCM is ~48KB per second so localStorage is too small.
+export const AUDIO_CACHE = {
+  DB_NAME: 'linguaflow_audio',
+  MAX_BYTES: 80 * 1024 * 1024,
+  MAX_CLIPS: 500
+};
+
+// Slower or faster playback is time-stretched so the voice keeps its pitch.
+export const PLAYBACK_RATE = {
+  MIN: 0.5,
+  MAX: 1.5,
+  STEP: 0.05
+};
+
+export const DEFAULT_SHADOW_SETTINGS: ShadowSettings = {
+  repeatCount: 2,
+  gapMultiplier: 1.2,
+  playbackRate: 1.0,
+  recordAttempts: false
+};
+
 export const STORAGE_KEYS = {
   LANGUAGE: 'linguaflow_language_preference',
   DIALOGUES_LIST: 'linguaflow_saved_dialogues',
   ACTIVE_DIALOGUE_ID: 'linguaflow_active_dialogue_id',
-  SESSION_PREFIX: 'linguaflow_session_'
+  SESSION_PREFIX: 'linguaflow_session_',
+  REVIEW_SCHEDULE: 'linguaflow_review_schedule',
+  SHADOW_SETTINGS: 'linguaflow_shadow_settings',
+  AI_PROVIDER: 'linguaflow_ai_provider',
+  USAGE_LEDGER: 'linguaflow_usage_ledger',
+  PRACTICE_LOG: 'linguaflow_practice_log',
+  VOCABULARY: 'linguaflow_vocabulary'
 };
\ No newline at end of file
@@ -1,6 +1,8 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { buildBundle, downloadBundle } from './services/dataBundle';
+import { translate, loadLanguage } from './services/i18n';
 
 interface ErrorBoundaryProps {
   children?: ReactNode;
@@ -37,21 +39,25 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
   render() {
     // Fix: Access hasError from the correctly typed this.state
     if (this.state.hasError) {
+      // The boundary sits outside the app's i18n provider, so read the saved language directly.
+      const language = loadLanguage();
       return (
         <div className="min-h-screen bg-slate-950 flex flex-col items-center justify-center text-white p-6 text-center">
           <div className="w-16 h-16 bg-red-500/20 text-red-500 rounded-full flex items-center justify-center mb-4">
             <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"/><line x1="12" y1="8" x2="12" y2="12"/><line x1="12" y1="16" x2="12.01" y2="16"/></svg>
           </div>
-          <h1 className="text-2xl font-bold mb-2">Something went wrong</h1>
-          <p className="text-slate-400 mb-6 max-w-xs">The application encountered an unexpected error and could not continue.</p>
+          <h1 className="text-2xl font-bold mb-2">{translate(language, 'boundary.title')}</h1>
+          <p className="text-slate-400 mb-6 max-w-xs">{translate(language, 'boundary.body')}</p>
           <button 
             onClick={() => {
+              // Save everything before wiping it, so a bad reset never costs the user their library.
+              try { downloadBundle(buildBundle(), `linguaflow-pre-reset-${Date.now()}.json`); } catch (e) { console.error("Backup failed:", e); }
               localStorage.clear();
-              window.location.reload();
+              setTimeout(() => window.location.reload(), 500);
             }}
             className="px-6 py-3 bg-indigo-600 rounded-xl font-bold hover:bg-indigo-500 transition-all active:scale-95"
           >
-            Reset & Reload App
+            {translate(language, 'boundary.reset')}
           </button>
         </div>
       );
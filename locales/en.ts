@@ -0,0 +1,344 @@
+// Source catalogue: every other locale is typed against these keys. Placeholders use {name}.
+export const en = {
+  'common.words': '{count} words',
+  'common.narrator': 'Narrator',
+  'common.target': 'Target',
+  'common.you': 'You',
+  'common.live': '(live)',
+  'common.on': 'On',
+  'common.off': 'Off',
+  'common.speed': 'Playback speed',
+
+  'category.All': 'All',
+  'category.Daily': 'Daily',
+  'category.BBC News': 'BBC News',
+  'category.TED Talk': 'TED Talk',
+  'category.Interview': 'Interview',
+  'category.Life Vlog': 'Life Vlog',
+  'difficulty.Beginner': 'Beginner',
+  'difficulty.Intermediate': 'Intermediate',
+  'difficulty.Advanced': 'Advanced',
+
+  'errors.badReply': 'The AI reply was not usable. Please try again.',
+  'errors.timeout': 'The request took too long. Please try again.',
+  'errors.micDenied': 'Microphone access was denied.',
+
+  'boundary.title': 'Something went wrong',
+  'boundary.body': 'The application encountered an unexpected error and could not continue. Resetting downloads a backup of your data first.',
+  'boundary.reset': 'Reset & Reload App',
+
+  'app.languageToggle': '中',
+  'app.progress': 'Progress',
+  'app.vocabulary': 'Vocabulary',
+  'app.settings': 'Settings',
+  'app.newContent': 'New content',
+  'app.searchPlaceholder': 'Search titles, scenarios and lines...',
+  'app.dueToday': 'Due Today',
+  'app.anyLevel': 'Any Level',
+  'app.anyTime': 'Any Time',
+  'app.duration.short': '< 3 min',
+  'app.duration.medium': '3-5 min',
+  'app.duration.long': '> 5 min',
+  'app.anyTag': 'Any Tag',
+  'app.edit': 'Edit',
+  'app.duplicate': 'Duplicate',
+  'app.copyTitle': '{title} (copy)',
+  'app.delete': 'Delete',
+  'app.review': 'Review',
+  'app.availableOffline': 'Available offline',
+  'app.downloadOffline': 'Download for offline',
+  'app.noMatches': 'No matches',
+  'app.noMatchesBody': 'Nothing in your library matches these filters.',
+  'app.clearSearch': 'Clear search',
+  'app.allCaughtUp': 'All caught up',
+  'app.allCaughtUpBody': 'Nothing is due for review today. Check a dictation or recite a dialogue to schedule it.',
+  'app.generating': 'Generating...',
+  'app.autoFill': 'AI Auto-Fill',
+  'app.autoFillBody': 'Tap to instantly generate a lesson for this category.',
+  'app.generateNow': 'Generate Now',
+  'app.deleted': 'Deleted "{title}"',
+  'app.undo': 'Undo',
+  'app.downloadFailed': 'Download failed. Please try again.',
+  'app.generationFailed': 'Generation failed. Please check your API key.',
+
+  'generator.title': 'Content Generator',
+  'generator.tabTopic': 'From a topic',
+  'generator.tabImport': 'Import text / subtitles',
+  'generator.importPlaceholder': 'Paste an article, a "Speaker: line" transcript, or SRT / VTT subtitles...',
+  'generator.chooseFile': 'Choose a file (.srt .vtt .txt)',
+  'generator.parsedSummary': '{lines} lines · {words} words',
+  'generator.titlePlaceholder': 'Title',
+  'generator.keepTimestamps': 'Keep subtitle timestamps',
+  'generator.chunkLabel': 'Cut a {min}-{max} word recitation chunk',
+  'generator.importAll': 'Import everything',
+  'generator.chunkOption': 'From line {line}',
+  'generator.selectedSummary': '{lines} lines selected · {words} words',
+  'generator.importDirect': 'Import as is',
+  'generator.importAi': 'Tidy with AI',
+  'generator.importedTitle': 'Imported Script',
+  'generator.importedScenario': '{lines} lines imported.',
+  'generator.importedScenarioFrom': '{lines} lines imported from {time}.',
+  'generator.quickStart': 'Quick start',
+  'generator.dailyRecite': '50-70 word recitation mode',
+  'generator.dailyReciteBody': '2-3 very short everyday dialogues, sized for word-perfect recitation',
+  'generator.orCustom': 'Or pick your own topic',
+  'generator.topicPlaceholder': 'e.g. ordering at a café, a job interview introduction...',
+  'generator.generateCustom': 'Generate from topic',
+  'generator.errorMissingKey': 'Set an API key on the home screen first.',
+  'generator.errorBadReply': 'The AI reply was malformed. Please try again.',
+  'generator.errorFailed': 'Generation failed. Please try again later.',
+  'generator.errorBadReplyImport': 'The AI reply was malformed. You can import the text as is instead.',
+  'generator.errorFailedImport': 'Tidying failed. You can import the text as is instead.',
+
+  'card.wordGoal': '(Goal)',
+  'card.referenceRecording': 'Reference recording',
+  'card.voices': 'Voices',
+  'card.step.blind': 'Blind',
+  'card.step.dictation': 'Dictation',
+  'card.step.read': 'Read',
+  'card.step.shadow': 'Shadow',
+  'card.step.recite': 'Recite',
+  'card.step.translate': 'Translate',
+  'card.step.roleplay': 'Role-play',
+  'card.noAudio': 'No audio data',
+  'card.audioFailed': 'Failed to fetch audio.',
+  'card.audioTimeout': 'Audio took too long to load. Please try again.',
+  'card.blindTitle': 'Blind Listening',
+  'card.blindBody': 'Focus on the sounds. Text is hidden.',
+  'card.dictationTitle': 'Audio Dictation',
+  'card.dictationBody': 'Transcribe what you hear.',
+  'card.dictationPlaceholder': 'Type exactly...',
+  'card.dictationResult': 'Analysis: {score}% Accurate',
+  'card.dictationSpelling': 'Spelling {score}%',
+  'card.dictationCompleteness': 'Complete {score}%',
+  'card.dictationLines': 'By line',
+  'card.dictationLineDetail': '{missing} missing · {misspelled} misspelled',
+  'card.dictationMode.full': 'Whole text',
+  'card.dictationMode.line': 'Line by line',
+  'card.backToEditor': 'Back to Editor',
+  'card.checkErrors': 'Check Errors',
+  'card.reciteTitle': 'Accuracy Challenge',
+  'card.reciteTarget': 'Target: {count} Words (Aiming for 50-70 total)',
+  'card.score': 'Score: {score}%',
+  'card.wordsSpoken': '{spoken} / {total} Words',
+  'card.heard': 'Heard: "{text}"',
+  'card.recitingFromMemory': 'RECITING FROM MEMORY',
+  'card.transcription': 'Transcription',
+  'card.pronunciation': 'Pronunciation',
+  'card.intonation': 'Intonation',
+  'card.tips': 'Mastery Tips',
+  'card.finish': 'Finish',
+  'card.analyzing': 'Analyzing...',
+  'card.startReciting': 'Start Reciting',
+  'card.startRecording': 'Start Recording',
+  'card.analysisRetry': 'The AI reply was not usable. Please record again.',
+  'card.analysisMissingKey': 'Add an API key in Settings to get feedback.',
+  'card.analysisFailed': 'Analysis failed. Please try again.',
+  'card.castTitle': 'Voice Cast',
+  'card.castBody': 'Pick a voice for each speaker. Saved with this dialogue.',
+  'card.autoAssign': 'Auto-assign',
+  'card.heardAs': 'Heard as',
+  'card.noPhonemeIssues': 'No phoneme problems detected.',
+  'card.searching': 'Searching...',
+  'card.noDefinition': 'No definition found.',
+  'card.lookupFailed': 'Lookup failed.',
+  'card.saveWord': 'Save to notebook',
+  'card.wordSaved': 'Saved to notebook',
+  'card.showTranslation': 'Show translation',
+  'card.translating': 'Translating...',
+  'card.translationMissingKey': 'Add an API key in Settings to get translations.',
+  'card.translationFailed': 'Translation failed. Please try again.',
+
+  'translate.title': 'Translate Back',
+  'translate.body': 'Read each translation and write the original English line.',
+  'translate.generate': 'Generate Translations',
+  'translate.generateBody': 'Translations are created once and saved with this dialogue.',
+  'translate.placeholder': 'Write the English line...',
+  'translate.check': 'Check Answers',
+  'translate.retry': 'Try Again',
+  'translate.result': 'Score: {score}%',
+
+  'blind.setStart': 'Set loop start (A)',
+  'blind.setEnd': 'Set loop end (B)',
+  'blind.loopAb': 'Loop A–B (L)',
+  'blind.clearLoop': 'Clear A–B loop',
+  'blind.bookmarkPlaceholder': 'Name this moment...',
+  'blind.addBookmark': 'Add bookmark',
+  'blind.bookmarkDefault': 'Bookmark {n}',
+  'blind.removeBookmark': 'Remove bookmark',
+  'blind.shortcuts': 'Space play/pause · R rewind 10s · ←/→ previous/next line · A/B loop points · L toggle loop',
+
+  'dictation.lineOf': 'Line {current} of {total}',
+  'dictation.play': 'Play this line',
+  'dictation.notPlayed': 'Press play to hear the line',
+  'dictation.replays': 'Replayed {count}×',
+  'dictation.placeholder': 'Type the line you heard...',
+  'dictation.check': 'Check Line',
+  'dictation.next': 'Next Line',
+  'dictation.finish': 'See Report',
+  'dictation.reportTitle': 'Line-by-line Report',
+  'dictation.reportSummary': '{replays} replays in total',
+  'dictation.restart': 'Start Over',
+
+  'shadow.title': 'Shadowing',
+  'shadow.body': 'Listen to each line, then repeat it in the pause.',
+  'shadow.repeats': 'Repeats',
+  'shadow.record': 'Record',
+  'shadow.pause': 'Pause',
+  'shadow.speed': 'Speed',
+  'shadow.yourTurn': 'Your turn · {seconds}s',
+  'shadow.listen': 'Listen',
+  'shadow.take': 'Take {n}',
+
+  'roleplay.title': 'Role-play',
+  'roleplay.body': 'Take one part: the other speakers are played for you, and each of your lines is scored before the conversation goes on.',
+  'roleplay.role': 'Your role',
+  'roleplay.visibility': 'Your lines',
+  'roleplay.visibility.visible': 'Shown',
+  'roleplay.visibility.cloze': 'Gaps',
+  'roleplay.visibility.hidden': 'Hidden',
+  'roleplay.start': 'Start as {role}',
+  'roleplay.playingAs': 'Playing {role}',
+  'roleplay.progress': '{done} of {total} lines scored',
+  'roleplay.stop': 'Stop role-play',
+  'roleplay.listening': 'Listen...',
+  'roleplay.hiddenLine': 'Your line - say it from memory',
+  'roleplay.record': 'Say Your Line',
+  'roleplay.stopRecording': 'Done Speaking',
+  'roleplay.scoring': 'Scoring your line...',
+  'roleplay.heard': 'Heard',
+  'roleplay.retry': 'Try Again',
+  'roleplay.next': 'Continue',
+  'roleplay.transcript': 'Conversation Transcript',
+  'roleplay.summary': '{count} lines as {role}',
+  'roleplay.restart': 'Play Again',
+
+  'prosody.title': 'Local Prosody Check',
+  'prosody.pitch': 'Pitch',
+  'prosody.intonation': 'Intonation',
+  'prosody.timeTaken': 'Time Taken',
+  'prosody.pauseIssues': 'Pause Issues',
+  'prosody.finding.flatMelody': "Your pitch movement doesn't follow the model's rises and falls closely. Exaggerate the melody on key words.",
+  'prosody.finding.goodMelody': "Your intonation tracks the model's contour well.",
+  'prosody.finding.narrowRange': 'Your pitch range is narrow ({user} vs {reference} semitones), which can sound flat.',
+  'prosody.finding.tooSlow': 'You spoke about {percent}% slower than the model.',
+  'prosody.finding.tooFast': 'You spoke about {percent}% faster than the model.',
+  'prosody.finding.missingPause': 'You ran through 1 pause the model makes between phrases.',
+  'prosody.finding.missingPauses': 'You ran through {count} pauses the model makes between phrases.',
+  'prosody.finding.extraPause': 'You added 1 pause where the model keeps going.',
+  'prosody.finding.extraPauses': 'You added {count} pauses where the model keeps going.',
+  'prosody.finding.offStress': "Loudness peaks don't line up with the model's stressed syllables.",
+
+  'alignment.title': 'Reference Recording',
+  'alignment.upload': 'Upload audio (mp3, m4a, wav...)',
+  'alignment.autoAlign': 'Auto-align',
+  'alignment.setEdges': 'Line {line}: set its edges at the playhead',
+  'alignment.start': 'Start',
+  'alignment.end': 'End',
+  'alignment.remove': 'Go back to generated speech',
+  'alignment.save': 'Save Alignment',
+  'alignment.missing': 'The attached recording is missing on this device. Upload it again.',
+  'alignment.decodeAttachedFailed': 'Could not decode the attached recording.',
+  'alignment.decodeFailed': 'This file could not be decoded as audio.',
+  'alignment.storeFailed': 'Could not store the recording. The browser may be out of space.',
+
+  'editor.title': 'Edit Dialogue',
+  'editor.details': 'Details',
+  'editor.titlePlaceholder': 'Title',
+  'editor.scenarioPlaceholder': 'Scenario',
+  'editor.durationPlaceholder': '2 min',
+  'editor.tagsPlaceholder': 'Tags, comma separated (e.g. travel, small talk)',
+  'editor.lines': 'Lines',
+  'editor.speakerPlaceholder': 'Speaker',
+  'editor.insertBelow': 'Insert line below',
+  'editor.linePlaceholder': 'Line text',
+  'editor.addLine': 'Add Line',
+  'editor.save': 'Save Changes',
+  'editor.titleRequired': 'Title is required',
+  'editor.lineRequired': 'Add at least one line',
+  'editor.speakerRequired': 'Every line needs a speaker',
+
+  'settings.title': 'Settings',
+  'settings.keyNeeded': 'API Key Needed',
+  'settings.provider': 'AI Provider',
+  'settings.geminiIntro': 'This app is deployed on GitHub Pages. To use AI features, please provide your Google Gemini API Key. It will be saved locally in your browser.',
+  'settings.geminiPlaceholder': 'Enter your Gemini API Key...',
+  'settings.geminiPrivacy': 'Your key is never sent to any server except Google Gemini.',
+  'settings.openAiKeyPlaceholder': 'API key (optional for local servers)',
+  'settings.openAiHelp': 'Works with any server exposing /chat/completions and /audio/speech, e.g. a local LLM runtime.',
+  'settings.mockHelp': 'Returns canned lessons, tone-based speech and fixed scores without any network access. Useful for demos and testing.',
+  'settings.hideModels': 'Hide models',
+  'settings.chooseModels': 'Choose models',
+  'settings.role.structured': 'Lesson generation',
+  'settings.role.text': 'Definitions',
+  'settings.role.speech': 'Speech (TTS)',
+  'settings.role.audio': 'Pronunciation analysis',
+  'settings.saveAndStart': 'Save & Start',
+  'settings.saveAi': 'Save AI Settings',
+  'settings.offlineAudio': 'Offline Audio',
+  'settings.cacheOf': 'of {max}',
+  'settings.cacheSummary': '{clips} clips · {dialogues} dialogues',
+  'settings.usage': 'Usage',
+  'settings.usageReset': 'Reset',
+  'settings.usageEmpty': 'No AI requests recorded on this device yet.',
+  'settings.usageCalls': '{calls} calls',
+  'settings.usageFailed': '{failures} failed',
+  'settings.usageTokens': '{input} in / {output} out tokens',
+  'settings.backup': 'Backup & Sync',
+  'settings.export': 'Export',
+  'settings.import': 'Import',
+  'settings.invalidJson': 'File is not valid JSON',
+  'settings.moreErrors': '…and {count} more',
+  'settings.importSummary': '{dialogues} dialogues · {conflicts} already on this device',
+  'settings.mode.merge': 'Merge',
+  'settings.mode.replace': 'Replace',
+  'settings.conflict.keep': "On conflict: keep this device's copy",
+  'settings.conflict.overwrite': 'On conflict: use the imported copy',
+  'settings.conflict.duplicate': 'On conflict: keep both',
+  'settings.replaceWarning': 'Replace removes every dialogue and session on this device first.',
+  'settings.applyImport': 'Apply Import',
+
+  'progress.title': 'Progress',
+  'progress.empty': 'Nothing logged yet. Listening sessions, dictation checks and recitation scores will show up here as you practise.',
+  'progress.streak': 'Day streak',
+  'progress.bestStreak': 'Best streak',
+  'progress.lastWeek': 'Last 7 days',
+  'progress.keepStreak': 'Practise today to keep your {count}-day streak.',
+  'progress.activity': 'Activity',
+  'progress.dayTooltip': '{date}: {sessions} sessions, {time}',
+  'progress.trends': 'Score trends',
+  'progress.scoredCount': '{count} scored',
+  'progress.byCategory': 'By category',
+  'progress.categorySummary': '{sessions} sessions · {time}',
+  'progress.average': ' · avg {score}',
+  'progress.minutes': '{count} min',
+  'progress.hours': '{count} h',
+  'progress.activity.listening': 'Listening',
+  'progress.activity.dictation': 'Dictation',
+  'progress.activity.reading': 'Reading',
+  'progress.activity.recitation': 'Recitation',
+  'progress.activity.translation': 'Translation',
+  'progress.activity.roleplay': 'Role-play',
+
+  'vocab.title': 'Vocabulary',
+  'vocab.empty': 'Words you save from a definition show up here. Tap any word in a dialogue to look it up.',
+  'vocab.searchPlaceholder': 'Search words, definitions and sentences...',
+  'vocab.sort.recent': 'Newest first',
+  'vocab.sort.alphabetical': 'A–Z',
+  'vocab.sort.dialogue': 'By dialogue',
+  'vocab.count': '{count} words',
+  'vocab.exportCsv': 'CSV',
+  'vocab.exportAnki': 'Anki',
+  'vocab.review': 'Review',
+  'vocab.delete': 'Delete',
+  'vocab.noMatches': 'No saved words match this search.',
+  'vocab.cardCount': '{current} / {total}',
+  'vocab.flip': 'Tap to show the meaning',
+  'vocab.playSentence': 'Play sentence',
+  'vocab.audioFailed': 'Could not play the sentence.',
+  'vocab.previous': 'Previous',
+  'vocab.next': 'Next',
+  'vocab.backToList': 'Back to list'
+} as const;
+
+export type MessageKey = keyof typeof en;
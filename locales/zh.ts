@@ -0,0 +1,344 @@
+import { MessageKey } from './en';
+
+// Typed against the English keys, so a missing or extra entry fails the type-check.
+export const zh: Record<MessageKey, string> = {
+  'common.words': '{count} 词',
+  'common.narrator': '旁白',
+  'common.target': '示范',
+  'common.you': '你',
+  'common.live': '（实时）',
+  'common.on': '开',
+  'common.off': '关',
+  'common.speed': '播放速度',
+
+  'category.All': '全部',
+  'category.Daily': '日常',
+  'category.BBC News': 'BBC 新闻',
+  'category.TED Talk': 'TED 演讲',
+  'category.Interview': '访谈',
+  'category.Life Vlog': '生活 Vlog',
+  'difficulty.Beginner': '初级',
+  'difficulty.Intermediate': '中级',
+  'difficulty.Advanced': '高级',
+
+  'errors.badReply': 'AI 返回的内容无法使用，请重试。',
+  'errors.timeout': '请求超时，请重试。',
+  'errors.micDenied': '无法使用麦克风，请检查权限。',
+
+  'boundary.title': '出错了',
+  'boundary.body': '应用遇到意外错误，无法继续运行。重置前会先下载一份数据备份。',
+  'boundary.reset': '重置并重新加载',
+
+  'app.languageToggle': 'EN',
+  'app.progress': '学习进度',
+  'app.vocabulary': '生词本',
+  'app.settings': '设置',
+  'app.newContent': '新建内容',
+  'app.searchPlaceholder': '搜索标题、场景和台词...',
+  'app.dueToday': '今日复习',
+  'app.anyLevel': '所有难度',
+  'app.anyTime': '所有时长',
+  'app.duration.short': '3 分钟以内',
+  'app.duration.medium': '3-5 分钟',
+  'app.duration.long': '5 分钟以上',
+  'app.anyTag': '所有标签',
+  'app.edit': '编辑',
+  'app.duplicate': '复制',
+  'app.copyTitle': '{title}（副本）',
+  'app.delete': '删除',
+  'app.review': '待复习',
+  'app.availableOffline': '已可离线使用',
+  'app.downloadOffline': '下载以离线使用',
+  'app.noMatches': '没有匹配结果',
+  'app.noMatchesBody': '资料库中没有符合这些筛选条件的内容。',
+  'app.clearSearch': '清除搜索',
+  'app.allCaughtUp': '全部完成',
+  'app.allCaughtUpBody': '今天没有需要复习的内容。完成一次听写或背诵后会自动安排复习。',
+  'app.generating': '生成中...',
+  'app.autoFill': 'AI 自动生成',
+  'app.autoFillBody': '点击即可为当前分类生成一课。',
+  'app.generateNow': '立即生成',
+  'app.deleted': '已删除「{title}」',
+  'app.undo': '撤销',
+  'app.downloadFailed': '下载失败，请重试。',
+  'app.generationFailed': '生成失败，请检查 API Key。',
+
+  'generator.title': '内容生成器',
+  'generator.tabTopic': '话题生成',
+  'generator.tabImport': '导入文本 / 字幕',
+  'generator.importPlaceholder': '粘贴文章、"Speaker: line" 格式的对话稿，或 SRT / VTT 字幕...',
+  'generator.chooseFile': '选择文件 (.srt .vtt .txt)',
+  'generator.parsedSummary': '{lines} 行 · {words} 词',
+  'generator.titlePlaceholder': '标题',
+  'generator.keepTimestamps': '保留字幕时间戳',
+  'generator.chunkLabel': '截取 {min}-{max} 词背诵片段',
+  'generator.importAll': '导入全部',
+  'generator.chunkOption': '从第 {line} 行开始',
+  'generator.selectedSummary': '已选 {lines} 行 · {words} 词',
+  'generator.importDirect': '直接导入',
+  'generator.importAi': 'AI 整理',
+  'generator.importedTitle': '导入的脚本',
+  'generator.importedScenario': '已导入 {lines} 行。',
+  'generator.importedScenarioFrom': '已导入 {lines} 行，起始于 {time}。',
+  'generator.quickStart': '快速启动',
+  'generator.dailyRecite': '50-70词 精准背诵模式',
+  'generator.dailyReciteBody': '生成 2-3 段极简生活对话，适合精准背诵',
+  'generator.orCustom': '或者自定义话题',
+  'generator.topicPlaceholder': '例如：在咖啡馆、面试自我介绍...',
+  'generator.generateCustom': '生成自定义话题',
+  'generator.errorMissingKey': '请先在主页设置 API Key',
+  'generator.errorBadReply': 'AI 返回的内容格式有误，请重试',
+  'generator.errorFailed': '生成失败，请稍后重试',
+  'generator.errorBadReplyImport': 'AI 返回的内容格式有误，可以先直接导入',
+  'generator.errorFailedImport': '整理失败，可以先直接导入',
+
+  'card.wordGoal': '（达标）',
+  'card.referenceRecording': '参考录音',
+  'card.voices': '配音',
+  'card.step.blind': '盲听',
+  'card.step.dictation': '听写',
+  'card.step.read': '跟读',
+  'card.step.shadow': '影子跟读',
+  'card.step.recite': '背诵',
+  'card.step.translate': '回译',
+  'card.step.roleplay': '角色扮演',
+  'card.noAudio': '暂无音频',
+  'card.audioFailed': '音频获取失败。',
+  'card.audioTimeout': '音频加载超时，请重试。',
+  'card.blindTitle': '盲听练习',
+  'card.blindBody': '专注于声音，文本已隐藏。',
+  'card.dictationTitle': '听写练习',
+  'card.dictationBody': '写下你听到的内容。',
+  'card.dictationPlaceholder': '请逐字输入...',
+  'card.dictationResult': '分析：准确率 {score}%',
+  'card.dictationSpelling': '拼写 {score}%',
+  'card.dictationCompleteness': '完整度 {score}%',
+  'card.dictationLines': '逐句',
+  'card.dictationLineDetail': '缺失 {missing} · 拼错 {misspelled}',
+  'card.dictationMode.full': '全文',
+  'card.dictationMode.line': '逐句',
+  'card.backToEditor': '返回编辑',
+  'card.checkErrors': '检查错误',
+  'card.reciteTitle': '精准背诵挑战',
+  'card.reciteTarget': '目标：{count} 词（建议总数 50-70 词）',
+  'card.score': '得分：{score}%',
+  'card.wordsSpoken': '{spoken} / {total} 词',
+  'card.heard': '识别为："{text}"',
+  'card.recitingFromMemory': '凭记忆背诵中',
+  'card.transcription': '转写',
+  'card.pronunciation': '发音',
+  'card.intonation': '语调',
+  'card.tips': '提升建议',
+  'card.finish': '完成',
+  'card.analyzing': '分析中...',
+  'card.startReciting': '开始背诵',
+  'card.startRecording': '开始录音',
+  'card.analysisRetry': 'AI 返回的内容无法使用，请重新录音。',
+  'card.analysisMissingKey': '请在设置中填写 API Key 以获取反馈。',
+  'card.analysisFailed': '分析失败，请重试。',
+  'card.castTitle': '角色配音',
+  'card.castBody': '为每位说话人选择声音，设置会随对话保存。',
+  'card.autoAssign': '自动分配',
+  'card.heardAs': '听起来像',
+  'card.noPhonemeIssues': '未发现音素问题。',
+  'card.searching': '查询中...',
+  'card.noDefinition': '未找到释义。',
+  'card.lookupFailed': '查询失败。',
+  'card.saveWord': '加入生词本',
+  'card.wordSaved': '已加入生词本',
+  'card.showTranslation': '显示译文',
+  'card.translating': '翻译中...',
+  'card.translationMissingKey': '请先在设置中填写 API Key 以获取译文。',
+  'card.translationFailed': '翻译失败，请重试。',
+
+  'translate.title': '回译练习',
+  'translate.body': '看译文，写出对应的英文原句。',
+  'translate.generate': '生成译文',
+  'translate.generateBody': '译文只生成一次，并随对话保存。',
+  'translate.placeholder': '写出英文原句...',
+  'translate.check': '检查答案',
+  'translate.retry': '再试一次',
+  'translate.result': '得分：{score}%',
+
+  'blind.setStart': '设置循环起点 (A)',
+  'blind.setEnd': '设置循环终点 (B)',
+  'blind.loopAb': 'A–B 循环 (L)',
+  'blind.clearLoop': '清除 A–B 循环',
+  'blind.bookmarkPlaceholder': '为此处命名...',
+  'blind.addBookmark': '添加书签',
+  'blind.bookmarkDefault': '书签 {n}',
+  'blind.removeBookmark': '删除书签',
+  'blind.shortcuts': '空格 播放/暂停 · R 后退 10 秒 · ←/→ 上一句/下一句 · A/B 循环点 · L 开关循环',
+
+  'dictation.lineOf': '第 {current} 句，共 {total} 句',
+  'dictation.play': '播放本句',
+  'dictation.notPlayed': '点击播放收听本句',
+  'dictation.replays': '重听 {count} 次',
+  'dictation.placeholder': '输入你听到的句子...',
+  'dictation.check': '检查本句',
+  'dictation.next': '下一句',
+  'dictation.finish': '查看报告',
+  'dictation.reportTitle': '逐句报告',
+  'dictation.reportSummary': '共重听 {replays} 次',
+  'dictation.restart': '重新开始',
+
+  'shadow.title': '影子跟读',
+  'shadow.body': '先听每一句，再在停顿时跟读。',
+  'shadow.repeats': '重复次数',
+  'shadow.record': '录音',
+  'shadow.pause': '停顿',
+  'shadow.speed': '语速',
+  'shadow.yourTurn': '轮到你 · {seconds} 秒',
+  'shadow.listen': '听',
+  'shadow.take': '第 {n} 遍',
+
+  'roleplay.title': '角色扮演',
+  'roleplay.body': '扮演其中一个角色：其他角色的台词会自动播放，你的每句台词评分后对话才会继续。',
+  'roleplay.role': '你的角色',
+  'roleplay.visibility': '你的台词',
+  'roleplay.visibility.visible': '显示',
+  'roleplay.visibility.cloze': '挖空',
+  'roleplay.visibility.hidden': '隐藏',
+  'roleplay.start': '以 {role} 身份开始',
+  'roleplay.playingAs': '正在扮演 {role}',
+  'roleplay.progress': '已评分 {done} / {total} 句',
+  'roleplay.stop': '停止角色扮演',
+  'roleplay.listening': '请听...',
+  'roleplay.hiddenLine': '轮到你了——请凭记忆说出这句',
+  'roleplay.record': '说出你的台词',
+  'roleplay.stopRecording': '说完了',
+  'roleplay.scoring': '正在评分...',
+  'roleplay.heard': '识别结果',
+  'roleplay.retry': '再试一次',
+  'roleplay.next': '继续',
+  'roleplay.transcript': '对话记录',
+  'roleplay.summary': '以 {role} 身份说了 {count} 句',
+  'roleplay.restart': '再来一次',
+
+  'prosody.title': '本地韵律检测',
+  'prosody.pitch': '音高',
+  'prosody.intonation': '语调',
+  'prosody.timeTaken': '用时',
+  'prosody.pauseIssues': '停顿问题',
+  'prosody.finding.flatMelody': '你的音高起伏没有紧跟示范的升降，试着夸张关键词上的语调。',
+  'prosody.finding.goodMelody': '你的语调与示范的曲线很贴合。',
+  'prosody.finding.narrowRange': '你的音域较窄（{user} 对比 {reference} 个半音），听起来可能比较平淡。',
+  'prosody.finding.tooSlow': '你的语速比示范慢约 {percent}%。',
+  'prosody.finding.tooFast': '你的语速比示范快约 {percent}%。',
+  'prosody.finding.missingPause': '示范在短语之间有 1 处停顿，你一口气读了过去。',
+  'prosody.finding.missingPauses': '示范在短语之间有 {count} 处停顿，你一口气读了过去。',
+  'prosody.finding.extraPause': '你在示范连读的地方多停顿了 1 次。',
+  'prosody.finding.extraPauses': '你在示范连读的地方多停顿了 {count} 次。',
+  'prosody.finding.offStress': '你的重音位置与示范的重读音节没有对齐。',
+
+  'alignment.title': '参考录音',
+  'alignment.upload': '上传音频 (mp3, m4a, wav...)',
+  'alignment.autoAlign': '自动对齐',
+  'alignment.setEdges': '第 {line} 行：在播放位置设置起止点',
+  'alignment.start': '起点',
+  'alignment.end': '终点',
+  'alignment.remove': '改回合成语音',
+  'alignment.save': '保存对齐',
+  'alignment.missing': '此设备上找不到附加的录音，请重新上传。',
+  'alignment.decodeAttachedFailed': '无法解码附加的录音。',
+  'alignment.decodeFailed': '无法将此文件解码为音频。',
+  'alignment.storeFailed': '无法保存录音，浏览器存储空间可能不足。',
+
+  'editor.title': '编辑对话',
+  'editor.details': '详情',
+  'editor.titlePlaceholder': '标题',
+  'editor.scenarioPlaceholder': '场景',
+  'editor.durationPlaceholder': '2 min',
+  'editor.tagsPlaceholder': '标签，用逗号分隔（例如：旅行, 闲聊）',
+  'editor.lines': '台词',
+  'editor.speakerPlaceholder': '说话人',
+  'editor.insertBelow': '在下方插入一行',
+  'editor.linePlaceholder': '台词内容',
+  'editor.addLine': '添加一行',
+  'editor.save': '保存修改',
+  'editor.titleRequired': '请填写标题',
+  'editor.lineRequired': '至少需要一行台词',
+  'editor.speakerRequired': '每行台词都需要说话人',
+
+  'settings.title': '设置',
+  'settings.keyNeeded': '需要 API Key',
+  'settings.provider': 'AI 服务',
+  'settings.geminiIntro': '本应用部署在 GitHub Pages 上。要使用 AI 功能，请提供你的 Google Gemini API Key，它只会保存在你的浏览器中。',
+  'settings.geminiPlaceholder': '输入你的 Gemini API Key...',
+  'settings.geminiPrivacy': '你的 Key 只会发送给 Google Gemini。',
+  'settings.openAiKeyPlaceholder': 'API Key（本地服务可不填）',
+  'settings.openAiHelp': '适用于任何提供 /chat/completions 和 /audio/speech 接口的服务，例如本地 LLM 运行环境。',
+  'settings.mockHelp': '无需联网，返回固定的课程、音调合成语音和固定分数，适合演示和测试。',
+  'settings.hideModels': '隐藏模型',
+  'settings.chooseModels': '选择模型',
+  'settings.role.structured': '课程生成',
+  'settings.role.text': '单词释义',
+  'settings.role.speech': '语音合成 (TTS)',
+  'settings.role.audio': '发音分析',
+  'settings.saveAndStart': '保存并开始',
+  'settings.saveAi': '保存 AI 设置',
+  'settings.offlineAudio': '离线音频',
+  'settings.cacheOf': '/ {max}',
+  'settings.cacheSummary': '{clips} 个片段 · {dialogues} 篇对话',
+  'settings.usage': '用量',
+  'settings.usageReset': '重置',
+  'settings.usageEmpty': '此设备上还没有 AI 请求记录。',
+  'settings.usageCalls': '{calls} 次调用',
+  'settings.usageFailed': '{failures} 次失败',
+  'settings.usageTokens': '输入 {input} / 输出 {output} tokens',
+  'settings.backup': '备份与同步',
+  'settings.export': '导出',
+  'settings.import': '导入',
+  'settings.invalidJson': '文件不是有效的 JSON',
+  'settings.moreErrors': '……另有 {count} 条',
+  'settings.importSummary': '{dialogues} 篇对话 · {conflicts} 篇已在此设备上',
+  'settings.mode.merge': '合并',
+  'settings.mode.replace': '替换',
+  'settings.conflict.keep': '冲突时：保留此设备上的版本',
+  'settings.conflict.overwrite': '冲突时：使用导入的版本',
+  'settings.conflict.duplicate': '冲突时：两者都保留',
+  'settings.replaceWarning': '替换会先删除此设备上的所有对话和学习记录。',
+  'settings.applyImport': '应用导入',
+
+  'progress.title': '学习进度',
+  'progress.empty': '还没有记录。你练习后，听力、听写和背诵得分都会显示在这里。',
+  'progress.streak': '连续天数',
+  'progress.bestStreak': '最长连续',
+  'progress.lastWeek': '近 7 天',
+  'progress.keepStreak': '今天练习一下，保持 {count} 天连续记录。',
+  'progress.activity': '练习日历',
+  'progress.dayTooltip': '{date}：{sessions} 次练习，{time}',
+  'progress.trends': '得分趋势',
+  'progress.scoredCount': '{count} 次评分',
+  'progress.byCategory': '按分类',
+  'progress.categorySummary': '{sessions} 次练习 · {time}',
+  'progress.average': ' · 平均 {score}',
+  'progress.minutes': '{count} 分钟',
+  'progress.hours': '{count} 小时',
+  'progress.activity.listening': '听力',
+  'progress.activity.dictation': '听写',
+  'progress.activity.reading': '跟读',
+  'progress.activity.recitation': '背诵',
+  'progress.activity.translation': '回译',
+  'progress.activity.roleplay': '角色扮演',
+
+  'vocab.title': '生词本',
+  'vocab.empty': '查词后保存的单词会出现在这里。点击对话中的任意单词即可查询。',
+  'vocab.searchPlaceholder': '搜索单词、释义和例句...',
+  'vocab.sort.recent': '最新添加',
+  'vocab.sort.alphabetical': 'A–Z',
+  'vocab.sort.dialogue': '按对话',
+  'vocab.count': '{count} 个单词',
+  'vocab.exportCsv': 'CSV',
+  'vocab.exportAnki': 'Anki',
+  'vocab.review': '复习',
+  'vocab.delete': '删除',
+  'vocab.noMatches': '没有符合搜索的单词。',
+  'vocab.cardCount': '{current} / {total}',
+  'vocab.flip': '点击查看释义',
+  'vocab.playSentence': '播放例句',
+  'vocab.audioFailed': '无法播放例句。',
+  'vocab.previous': '上一个',
+  'vocab.next': '下一个',
+  'vocab.backToList': '返回列表'
+};
@@ -0,0 +1,84 @@
+import { STORAGE_KEYS } from "../constants";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+// Each AI capability can run on its own model, e.g. a cheap model for definitions and a stronger one for generation.
+export type ModelRole = 'text' | 'structured' | 'speech' | 'audio';
+
+// Provider-neutral subset of JSON Schema; each provider translates it to its own structured-output format.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export interface TextRequest {
+  prompt: string;
+  system?: string;
+  signal?: AbortSignal;
+}
+
+export interface JsonRequest extends TextRequest {
+  schema: JsonSchema;
+}
+
+export interface AudioAnalysisRequest extends JsonRequest {
+  audio: Blob;
+}
+
+export interface AiProvider {
+  id: ProviderId;
+  generateText(request: TextRequest): Promise<string>;
+  // Structured calls return the raw reply text; parsing and validation happen once, in the service layer.
+  generateJson(request: JsonRequest): Promise<string>;
+  // Always 24 kHz, 16-bit little-endian mono PCM so PCMPlayer and the stitcher never need to resample.
+  synthesizeSpeech(text: string, voice: string, signal?: AbortSignal): Promise<Uint8Array>;
+  analyzeAudio(request: AudioAnalysisRequest): Promise<string>;
+  defineWord(word: string, context: string, signal?: AbortSignal): Promise<string>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  models: Partial<Record<ModelRole, string>>;
+  baseUrl?: string; // OpenAI-compatible only
+  apiKey?: string; // OpenAI-compatible only; the Gemini key keeps its own storage slot
+}
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline demo (mock)'
+};
+
+export const DEFAULT_MODELS: Record<ProviderId, Record<ModelRole, string>> = {
+  gemini: { text: 'gemini-3-flash-preview', structured: 'gemini-3-pro-preview', speech: 'gemini-2.5-flash-preview-tts', audio: 'gemini-3-pro-preview' },
+  openai: { text: 'gpt-4o-mini', structured: 'gpt-4o-mini', speech: 'gpt-4o-mini-tts', audio: 'gpt-4o-audio-preview' },
+  mock: { text: 'mock', structured: 'mock', speech: 'mock', audio: 'mock' }
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.AI_PROVIDER);
+    if (saved) return { provider: 'gemini', models: {}, ...JSON.parse(saved) };
+  } catch (e) {}
+  return { provider: 'gemini', models: {} };
+};
+
+export const saveProviderConfig = (config: ProviderConfig) => {
+  localStorage.setItem(STORAGE_KEYS.AI_PROVIDER, JSON.stringify(config));
+};
+
+export const resolveModel = (config: ProviderConfig, role: ModelRole): string =>
+  config.models[role]?.trim() || DEFAULT_MODELS[config.provider][role];
+
+// Shared by providers that send the blob as base64 text.
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  const reader = new FileReader();
+  return new Promise<string>((resolve, reject) => {
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
@@ -0,0 +1,182 @@
+import { DialogueLine } from "../types";
+import { AUDIO_CACHE, DEFAULT_VOICE } from "../constants";
+import { loadProviderConfig, resolveModel } from "./aiProvider";
+
+interface CachedClip {
+  key: string;
+  dialogueId: string;
+  textHash: string;
+  voice: string;
+  pcm: Uint8Array;
+  size: number;
+  lastAccessed: number;
+}
+
+// Uploaded reference audio. Kept apart from the TTS clips so LRU eviction and "clear cache" never drop user files.
+interface StoredRecording {
+  dialogueId: string;
+  blob: Blob;
+  name: string;
+  size: number;
+}
+
+export interface AudioCacheUsage {
+  clips: number;
+  bytes: number;
+  dialogues: number;
+}
+
+const STORE = 'clips';
+const RECORDINGS_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(AUDIO_CACHE.DB_NAME, 3);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const store = db.objectStoreNames.contains(STORE) ? request.transaction!.objectStore(STORE) : db.createObjectStore(STORE, { keyPath: 'key' });
+        if (!store.indexNames.contains('dialogueId')) store.createIndex('dialogueId', 'dialogueId');
+        // Eviction and the usage readout walk this index with a key cursor, so no clip's audio is loaded just to read its size.
+        if (!store.indexNames.contains('usage')) store.createIndex('usage', ['lastAccessed', 'size']);
+        if (store.indexNames.contains('lastAccessed')) store.deleteIndex('lastAccessed');
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) db.createObjectStore(RECORDINGS_STORE, { keyPath: 'dialogueId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Visits every key of an index without loading the records behind it.
+const walkKeys = (index: IDBIndex, visit: (key: IDBValidKey, primaryKey: IDBValidKey) => void, direction?: IDBCursorDirection): Promise<void> => new Promise((resolve, reject) => {
+  const request = index.openKeyCursor(null, direction);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) { resolve(); return; }
+    visit(cursor.key, cursor.primaryKey);
+    cursor.continue();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => Promise<T>, storeName: string = STORE): Promise<T> => {
+  const db = await openDb();
+  return fn(db.transaction(storeName, mode).objectStore(storeName));
+};
+
+// FNV-1a: cheap, stable and good enough to tell edited lines apart.
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Clips from another provider or speech model (e.g. the mock's tones) must never be served after a switch;
+// their keys simply stop matching and the old clips age out through LRU eviction.
+const speechSource = () => {
+  const config = loadProviderConfig();
+  return `${config.provider}/${resolveModel(config, 'speech')}`;
+};
+
+const clipKey = (dialogueId: string, text: string, voice: string) => `${dialogueId}:${hashText(text)}:${voice}:${speechSource()}`;
+
+export const getCachedPcm = async (dialogueId: string, text: string, voice: string): Promise<Uint8Array | null> => {
+  try {
+    return await withStore('readwrite', async store => {
+      const clip = await promisify<CachedClip | undefined>(store.get(clipKey(dialogueId, text, voice)));
+      if (!clip) return null;
+      store.put({ ...clip, lastAccessed: Date.now() });
+      return clip.pcm;
+    });
+  } catch (e) { return null; }
+};
+
+export const putCachedPcm = async (dialogueId: string, text: string, voice: string, pcm: Uint8Array): Promise<void> => {
+  try {
+    const clip: CachedClip = { key: clipKey(dialogueId, text, voice), dialogueId, textHash: hashText(text), voice, pcm, size: pcm.byteLength, lastAccessed: Date.now() };
+    await withStore('readwrite', store => promisify(store.put(clip)));
+    await evictIfNeeded();
+  } catch (e) { /* Caching is best-effort; playback still works from memory. */ }
+};
+
+export const hasCachedPcm = async (dialogueId: string, text: string, voice: string): Promise<boolean> => {
+  try {
+    return await withStore('readonly', async store => (await promisify(store.count(clipKey(dialogueId, text, voice)))) > 0);
+  } catch (e) { return false; }
+};
+
+export const hasDialogueAudio = async (dialogueId: string, lines: DialogueLine[], cast: Record<string, string>): Promise<boolean> => {
+  const checks = await Promise.all(lines.map(l => hasCachedPcm(dialogueId, l.text, cast[l.speaker || ''] || DEFAULT_VOICE)));
+  return checks.length > 0 && checks.every(Boolean);
+};
+
+// Drops least-recently-used clips until both the byte and clip-count limits hold.
+const evictIfNeeded = async () => {
+  await withStore('readwrite', async store => {
+    const sizes: { key: IDBValidKey; size: number }[] = [];
+    await walkKeys(store.index('usage'), (key, primaryKey) => sizes.push({ key: primaryKey, size: (key as number[])[1] }));
+    let bytes = sizes.reduce((sum, c) => sum + c.size, 0);
+    let clips = sizes.length;
+    for (const c of sizes) {
+      if (bytes <= AUDIO_CACHE.MAX_BYTES && clips <= AUDIO_CACHE.MAX_CLIPS) break;
+      store.delete(c.key);
+      bytes -= c.size; clips--;
+    }
+  });
+};
+
+export const getAudioCacheUsage = async (): Promise<AudioCacheUsage> => {
+  try {
+    return await withStore('readonly', async store => {
+      const usage: AudioCacheUsage = { clips: 0, bytes: 0, dialogues: 0 };
+      await walkKeys(store.index('usage'), key => { usage.clips++; usage.bytes += (key as number[])[1]; });
+      await walkKeys(store.index('dialogueId'), () => { usage.dialogues++; }, 'nextunique');
+      return usage;
+    });
+  } catch (e) { return { clips: 0, bytes: 0, dialogues: 0 }; }
+};
+
+export const putRecording = async (dialogueId: string, blob: Blob, name: string): Promise<void> => {
+  const recording: StoredRecording = { dialogueId, blob, name, size: blob.size };
+  await withStore('readwrite', store => promisify(store.put(recording)), RECORDINGS_STORE);
+};
+
+export const getRecording = async (dialogueId: string): Promise<Blob | null> => {
+  try {
+    const recording = await withStore('readonly', store => promisify<StoredRecording | undefined>(store.get(dialogueId)), RECORDINGS_STORE);
+    return recording?.blob || null;
+  } catch (e) { return null; }
+};
+
+export const hasRecording = async (dialogueId: string): Promise<boolean> => {
+  try {
+    return await withStore('readonly', async store => (await promisify(store.count(dialogueId))) > 0, RECORDINGS_STORE);
+  } catch (e) { return false; }
+};
+
+export const deleteRecording = async (dialogueId: string): Promise<void> => {
+  try { await withStore('readwrite', store => promisify(store.delete(dialogueId)), RECORDINGS_STORE); } catch (e) {}
+};
+
+export const deleteDialogueAudio = async (dialogueId: string): Promise<void> => {
+  try {
+    const keys = await withStore('readonly', store => promisify(store.index('dialogueId').getAllKeys(dialogueId)));
+    await withStore('readwrite', async store => { keys.forEach(k => store.delete(k)); });
+  } catch (e) {}
+  await deleteRecording(dialogueId);
+};
+
+export const clearAudioCache = async (): Promise<void> => {
+  try { await withStore('readwrite', store => promisify(store.clear())); } catch (e) {}
+};
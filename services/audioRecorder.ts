@@ -0,0 +1,42 @@
+// Thin wrapper over MediaRecorder that owns the mic stream and hands back one webm Blob per take.
+export class MicRecorder {
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private chunks: Blob[] = [];
+
+  get isRecording() { return this.recorder?.state === 'recording'; }
+  get activeStream() { return this.stream; }
+
+  async start() {
+    if (this.isRecording) return;
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    this.recorder = new MediaRecorder(this.stream, { mimeType: 'audio/webm' });
+    const chunks: Blob[] = [];
+    this.chunks = chunks;
+    this.recorder.ondataavailable = (e) => chunks.push(e.data);
+    this.recorder.start();
+  }
+
+  stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    const stream = this.stream;
+    const chunks = this.chunks;
+    this.recorder = null;
+    this.stream = null;
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve(new Blob([], { type: 'audio/webm' }));
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        stream?.getTracks().forEach(t => t.stop());
+        resolve(new Blob(chunks, { type: 'audio/webm' }));
+      };
+      recorder.stop();
+    });
+  }
+
+  cancel() {
+    if (this.recorder?.state === 'recording') this.recorder.stop();
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.recorder = null;
+    this.stream = null;
+  }
+}
@@ -0,0 +1,258 @@
+import { Dialogue, DialogueReview, ShadowSettings, PracticeEntry, VocabEntry } from "../types";
+import { DIALOGUES, STORAGE_KEYS } from "../constants";
+import { loadReviewSchedule } from "./reviewScheduler";
+import { loadPracticeLog, savePracticeLog } from "./practiceLog";
+import { loadVocabulary, saveVocabulary } from "./vocabulary";
+
+export const BUNDLE_FORMAT = 'linguaflow-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface DataBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  dialogues: Dialogue[];
+  sessions: Record<string, unknown>; // dialogue id -> saved DialogueCard session
+  reviewSchedule: Record<string, DialogueReview>;
+  practiceLog: PracticeEntry[];
+  vocabulary: VocabEntry[];
+  preferences: { language?: string; shadowSettings?: Partial<ShadowSettings> };
+}
+
+export type ImportMode = 'merge' | 'replace';
+// How a merge treats an incoming dialogue whose id already exists locally.
+export type ConflictStrategy = 'keep' | 'overwrite' | 'duplicate';
+
+export interface ImportSummary {
+  added: number;
+  overwritten: number;
+  kept: number;
+  duplicated: number;
+}
+
+export interface BundleValidation {
+  bundle: DataBundle | null; // null when errors is non-empty
+  errors: string[];
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (e) { return fallback; }
+};
+
+const loadDialogues = (): Dialogue[] => readJson(STORAGE_KEYS.DIALOGUES_LIST, DIALOGUES);
+
+const loadSessions = (): Record<string, unknown> => {
+  const sessions: Record<string, unknown> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith(STORAGE_KEYS.SESSION_PREFIX)) sessions[key.slice(STORAGE_KEYS.SESSION_PREFIX.length)] = readJson(key, null);
+  }
+  return sessions;
+};
+
+export const buildBundle = (): DataBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  dialogues: loadDialogues(),
+  sessions: loadSessions(),
+  reviewSchedule: loadReviewSchedule(),
+  practiceLog: loadPracticeLog(),
+  vocabulary: loadVocabulary(),
+  preferences: {
+    language: localStorage.getItem(STORAGE_KEYS.LANGUAGE) || undefined,
+    shadowSettings: readJson<ShadowSettings | undefined>(STORAGE_KEYS.SHADOW_SETTINGS, undefined)
+  }
+});
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadBundle = (bundle: DataBundle = buildBundle(), filename?: string) => {
+  downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), filename || `linguaflow-backup-${bundle.exportedAt.slice(0, 10)}.json`);
+};
+
+const DIFFICULTIES = ['Beginner', 'Intermediate', 'Advanced'];
+const CATEGORIES = ['Daily', 'BBC News', 'TED Talk', 'Interview', 'Life Vlog'];
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const validateDialogue = (d: unknown, path: string, errors: string[]) => {
+  if (!isObject(d)) { errors.push(`${path} is not an object`); return; }
+  ['id', 'title', 'scenario', 'duration'].forEach(f => { if (typeof d[f] !== 'string') errors.push(`${path}.${f} must be a string`); });
+  if (!DIFFICULTIES.includes(d.difficulty)) errors.push(`${path}.difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  if (!CATEGORIES.includes(d.category)) errors.push(`${path}.category must be one of ${CATEGORIES.join(', ')}`);
+  if (d.imageUrl !== undefined && typeof d.imageUrl !== 'string') errors.push(`${path}.imageUrl must be a string`);
+  if (d.cast !== undefined && (!isObject(d.cast) || Object.values(d.cast).some(v => typeof v !== 'string'))) errors.push(`${path}.cast must map speakers to voice names`);
+  if (d.tags !== undefined && (!Array.isArray(d.tags) || d.tags.some((t: unknown) => typeof t !== 'string'))) errors.push(`${path}.tags must be an array of strings`);
+  if (!Array.isArray(d.lines) || d.lines.length === 0) { errors.push(`${path}.lines must be a non-empty array`); return; }
+  d.lines.forEach((l: unknown, i: number) => {
+    if (!isObject(l) || typeof l.speaker !== 'string' || typeof l.text !== 'string') errors.push(`${path}.lines[${i}] needs string speaker and text`);
+  });
+};
+
+// Malformed history entries are dropped rather than failing the import; they carry no user-authored content.
+const isPracticeEntry = (e: unknown): e is PracticeEntry =>
+  isObject(e) && typeof e.id === 'string' && typeof e.dialogueId === 'string' && typeof e.startedAt === 'number' && typeof e.durationMs === 'number' && CATEGORIES.includes(e.category);
+
+const isVocabEntry = (e: unknown): e is VocabEntry =>
+  isObject(e) && ['id', 'word', 'definition', 'sentence', 'dialogueId', 'dialogueTitle'].every(f => typeof e[f] === 'string') && typeof e.addedAt === 'number';
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isReviewState = (r: unknown) =>
+  isObject(r) && ['easeFactor', 'interval', 'repetitions', 'dueAt'].every(f => isNumber(r[f]));
+
+// A review with a broken schedule is dropped; broken per-line states are dropped from an otherwise valid review.
+const sanitizeReviewSchedule = (raw: Record<string, unknown>): Record<string, DialogueReview> => {
+  const schedule: Record<string, DialogueReview> = {};
+  Object.entries(raw).forEach(([id, r]) => {
+    if (!isReviewState(r) || !isObject((r as any).lines)) return;
+    const review = r as Record<string, any>;
+    const lines = Object.fromEntries(Object.entries(review.lines).filter(([i, l]) => /^\d+$/.test(i) && isReviewState(l)));
+    schedule[id] = { ...review, lastScore: isNumber(review.lastScore) ? review.lastScore : 0, lastReviewedAt: isNumber(review.lastReviewedAt) ? review.lastReviewedAt : 0, dialogueId: id, lines } as DialogueReview;
+  });
+  return schedule;
+};
+
+const SESSION_STEPS = ['blind', 'dictation', 'read', 'shadow', 'recite', 'translate', 'roleplay'];
+const VISIBILITY_MODES = ['visible', 'cloze', 'hidden'];
+const DICTATION_MODES = ['full', 'line'];
+
+// Sessions only carry resumable UI state, so unknown or mistyped fields are dropped and the card falls back to its defaults.
+const sanitizeSession = (s: unknown): Record<string, unknown> | null => {
+  if (!isObject(s)) return null;
+  const session: Record<string, unknown> = {};
+  if (SESSION_STEPS.includes(s.step)) session.step = s.step;
+  if (typeof s.userDictation === 'string') session.userDictation = s.userDictation;
+  if (VISIBILITY_MODES.includes(s.visibilityMode)) session.visibilityMode = s.visibilityMode;
+  if (DICTATION_MODES.includes(s.dictationMode)) session.dictationMode = s.dictationMode;
+  if (Array.isArray(s.bookmarks)) session.bookmarks = s.bookmarks.filter((b: unknown) => isObject(b) && typeof b.id === 'string' && typeof b.name === 'string' && isNumber(b.time));
+  if (isNumber(s.timestamp)) session.timestamp = s.timestamp;
+  return session;
+};
+
+const sanitizeSessions = (raw: Record<string, unknown>): Record<string, unknown> => {
+  const sessions: Record<string, unknown> = {};
+  Object.entries(raw).forEach(([id, s]) => { const session = sanitizeSession(s); if (session) sessions[id] = session; });
+  return sessions;
+};
+
+// Each setting is kept only if it is usable; the shadowing panel fills the rest from its defaults.
+const sanitizeShadowSettings = (raw: unknown): Partial<ShadowSettings> | undefined => {
+  if (!isObject(raw)) return undefined;
+  const settings: Partial<ShadowSettings> = {};
+  if (Number.isInteger(raw.repeatCount) && raw.repeatCount >= 1 && raw.repeatCount <= 5) settings.repeatCount = raw.repeatCount;
+  if (isNumber(raw.gapMultiplier) && raw.gapMultiplier > 0) settings.gapMultiplier = raw.gapMultiplier;
+  if (isNumber(raw.playbackRate) && raw.playbackRate > 0) settings.playbackRate = raw.playbackRate;
+  if (typeof raw.recordAttempts === 'boolean') settings.recordAttempts = raw.recordAttempts;
+  return Object.keys(settings).length ? settings : undefined;
+};
+
+export const validateBundle = (raw: unknown): BundleValidation => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { bundle: null, errors: ['File is not a JSON object'] };
+  if (raw.format !== BUNDLE_FORMAT) return { bundle: null, errors: ['Not a LinguaFlow backup file'] };
+  if (typeof raw.version !== 'number' || raw.version > BUNDLE_VERSION) errors.push(`Unsupported bundle version ${raw.version}; this app reads up to v${BUNDLE_VERSION}`);
+  if (!Array.isArray(raw.dialogues)) errors.push('dialogues must be an array');
+  else {
+    raw.dialogues.forEach((d: unknown, i: number) => validateDialogue(d, `dialogues[${i}]`, errors));
+    const ids = raw.dialogues.map((d: any) => d?.id);
+    if (new Set(ids).size !== ids.length) errors.push('dialogues contain duplicate ids');
+  }
+  if (raw.sessions !== undefined && !isObject(raw.sessions)) errors.push('sessions must be an object');
+  if (raw.reviewSchedule !== undefined && !isObject(raw.reviewSchedule)) errors.push('reviewSchedule must be an object');
+  if (raw.practiceLog !== undefined && !Array.isArray(raw.practiceLog)) errors.push('practiceLog must be an array');
+  if (raw.vocabulary !== undefined && !Array.isArray(raw.vocabulary)) errors.push('vocabulary must be an array');
+  if (raw.preferences !== undefined && !isObject(raw.preferences)) errors.push('preferences must be an object');
+  if (errors.length) return { bundle: null, errors };
+  return {
+    errors,
+    bundle: {
+      format: BUNDLE_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      dialogues: raw.dialogues,
+      sessions: sanitizeSessions(raw.sessions || {}),
+      reviewSchedule: sanitizeReviewSchedule(raw.reviewSchedule || {}),
+      practiceLog: (raw.practiceLog || []).filter(isPracticeEntry),
+      vocabulary: (raw.vocabulary || []).filter(isVocabEntry),
+      preferences: {
+        language: typeof raw.preferences?.language === 'string' ? raw.preferences.language : undefined,
+        shadowSettings: sanitizeShadowSettings(raw.preferences?.shadowSettings)
+      }
+    }
+  };
+};
+
+export const findConflicts = (bundle: DataBundle): string[] => {
+  const localIds = new Set(loadDialogues().map(d => d.id));
+  return bundle.dialogues.filter(d => localIds.has(d.id)).map(d => d.id);
+};
+
+const writeSession = (dialogueId: string, session: unknown) => {
+  if (session !== undefined && session !== null) localStorage.setItem(`${STORAGE_KEYS.SESSION_PREFIX}${dialogueId}`, JSON.stringify(session));
+};
+
+// Writes the bundle into localStorage; the caller reloads so App state is rebuilt from storage.
+export const importBundle = (bundle: DataBundle, mode: ImportMode, conflict: ConflictStrategy = 'keep'): ImportSummary => {
+  const summary: ImportSummary = { added: 0, overwritten: 0, kept: 0, duplicated: 0 };
+
+  if (mode === 'replace') {
+    Object.keys(loadSessions()).forEach(id => localStorage.removeItem(`${STORAGE_KEYS.SESSION_PREFIX}${id}`));
+    localStorage.setItem(STORAGE_KEYS.DIALOGUES_LIST, JSON.stringify(bundle.dialogues));
+    Object.entries(bundle.sessions).forEach(([id, session]) => writeSession(id, session));
+    localStorage.setItem(STORAGE_KEYS.REVIEW_SCHEDULE, JSON.stringify(bundle.reviewSchedule));
+    savePracticeLog(bundle.practiceLog);
+    saveVocabulary(bundle.vocabulary);
+    localStorage.removeItem(STORAGE_KEYS.ACTIVE_DIALOGUE_ID);
+    summary.added = bundle.dialogues.length;
+  } else {
+    const dialogues = loadDialogues();
+    const schedule = loadReviewSchedule();
+    bundle.dialogues.forEach(incoming => {
+      const index = dialogues.findIndex(d => d.id === incoming.id);
+      if (index < 0) {
+        dialogues.push(incoming);
+        writeSession(incoming.id, bundle.sessions[incoming.id]);
+        if (bundle.reviewSchedule[incoming.id]) schedule[incoming.id] = bundle.reviewSchedule[incoming.id];
+        summary.added++;
+      } else if (conflict === 'overwrite') {
+        dialogues[index] = incoming;
+        writeSession(incoming.id, bundle.sessions[incoming.id]);
+        if (bundle.reviewSchedule[incoming.id]) schedule[incoming.id] = bundle.reviewSchedule[incoming.id];
+        summary.overwritten++;
+      } else if (conflict === 'duplicate') {
+        const copyId = `${incoming.id}_import_${Date.now().toString(36)}`;
+        dialogues.push({ ...incoming, id: copyId, title: `${incoming.title} (imported)` });
+        writeSession(copyId, bundle.sessions[incoming.id]);
+        if (bundle.reviewSchedule[incoming.id]) schedule[copyId] = { ...bundle.reviewSchedule[incoming.id], dialogueId: copyId };
+        summary.duplicated++;
+      } else {
+        summary.kept++;
+      }
+    });
+    localStorage.setItem(STORAGE_KEYS.DIALOGUES_LIST, JSON.stringify(dialogues));
+    localStorage.setItem(STORAGE_KEYS.REVIEW_SCHEDULE, JSON.stringify(schedule));
+    // History is additive: entries already on this device (same id) are skipped, the rest merged in time order.
+    const log = loadPracticeLog();
+    const seen = new Set(log.map(e => e.id));
+    savePracticeLog([...log, ...bundle.practiceLog.filter(e => !seen.has(e.id))].sort((a, b) => a.startedAt - b.startedAt));
+    const vocabulary = loadVocabulary();
+    const savedWords = new Set(vocabulary.map(e => e.id));
+    saveVocabulary([...vocabulary, ...bundle.vocabulary.filter(e => !savedWords.has(e.id))]);
+  }
+
+  if (bundle.preferences.language) localStorage.setItem(STORAGE_KEYS.LANGUAGE, bundle.preferences.language);
+  if (bundle.preferences.shadowSettings) localStorage.setItem(STORAGE_KEYS.SHADOW_SETTINGS, JSON.stringify(bundle.preferences.shadowSettings));
+  return summary;
+};
@@ -0,0 +1,210 @@
+import { DialogueLine } from "../types";
+import { expandWord, joinedForm, normalizeUnits, WordUnit } from "./wordNormalization";
+
+export type WordStatus = 'correct' | 'misspelled' | 'incorrect' | 'missing';
+
+export interface DiffToken {
+  text: string;
+  status: WordStatus | 'extra';
+  expected?: string;
+}
+
+// One entry per word of the master text; extra counts the stray words typed right after it.
+export interface WordResult {
+  status: WordStatus;
+  extra: number;
+}
+
+export interface DiffScores {
+  score: number;
+  spelling: number;
+  completeness: number;
+  missing: number;
+  misspelled: number;
+}
+
+export interface DictationDiff extends DiffScores {
+  tokens: DiffToken[];
+  words: WordResult[];
+}
+
+interface Unit {
+  forms: WordUnit;
+  word: number;
+}
+
+type AlignOp = 'match' | 'typo' | 'sub' | 'del' | 'ins';
+
+// Integer costs keep the traceback comparisons exact. A typo costs half a gap, and a wrong word
+// costs a little more than one gap so a skipped word is not forced onto an unrelated one.
+const MATCH_COST = 0;
+const TYPO_COST = 5;
+const SUB_COST = 12;
+const GAP_COST = 10;
+
+const splitWords = (text: string) => text.split(/\s+/).filter(Boolean);
+
+const toUnits = (words: string[]): Unit[] =>
+  normalizeUnits(words.flatMap((w, word) => expandWord(w).map(forms => ({ forms, word }))));
+
+// Words that left no unit behind ("and" in "a hundred and five", a lone dash) ride along with the word before them.
+const spanText = (words: string[], indices: number[], covered: Set<number>) => {
+  let end = indices[indices.length - 1];
+  while (end + 1 < words.length && !covered.has(end + 1)) end++;
+  return words.slice(indices[0], end + 1).join(' ');
+};
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions ("teh" -> "the").
+const editDistance = (a: string, b: string): number => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => i === 0 ? j : j === 0 ? i : 0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Short words get no typo allowance: "a" for "I" is a different word, not a misspelling.
+const typoAllowance = (length: number) => length <= 2 ? 0 : length <= 5 ? 1 : 2;
+
+const compareUnits = (master: WordUnit, user: WordUnit): number => {
+  if (master.some(f => user.includes(f))) return MATCH_COST;
+  const isTypo = master.some(m => user.some(u => editDistance(m, u) <= typoAllowance(m.length)));
+  return isTypo ? TYPO_COST : SUB_COST;
+};
+
+// For each master unit that ends a multi-unit word, where that word's units start; -1 elsewhere.
+const wordStarts = (units: Unit[]) => units.map((u, i) => {
+  if (units[i + 1]?.word === u.word || units[i - 1]?.word !== u.word) return -1;
+  let start = i;
+  while (start > 0 && units[start - 1].word === u.word) start--;
+  return start;
+});
+
+// Needleman-Wunsch over the expanded word units; returns the operations in reading order.
+// A contraction typed as one word ("dont" for "don't") may also take all of its units in a single
+// step, compared against the joined form; that step only counts when it is a match or a typo.
+const align = (master: Unit[], user: Unit[], masterJoined: string[]) => {
+  const cols = user.length + 1;
+  const cost = new Int32Array((master.length + 1) * cols);
+  const pair = new Int32Array((master.length + 1) * cols);
+  const joined = new Int32Array((master.length + 1) * cols).fill(-1);
+  const starts = wordStarts(master);
+  for (let i = 0; i <= master.length; i++) cost[i * cols] = i * GAP_COST;
+  for (let j = 0; j <= user.length; j++) cost[j] = j * GAP_COST;
+  for (let i = 1; i <= master.length; i++) {
+    for (let j = 1; j <= user.length; j++) {
+      pair[i * cols + j] = compareUnits(master[i - 1].forms, user[j - 1].forms);
+      cost[i * cols + j] = Math.min(
+        cost[(i - 1) * cols + j - 1] + pair[i * cols + j],
+        cost[(i - 1) * cols + j] + GAP_COST,
+        cost[i * cols + j - 1] + GAP_COST
+      );
+      const start = starts[i - 1];
+      if (start < 0) continue;
+      const joinedCost = compareUnits([masterJoined[master[i - 1].word]], user[j - 1].forms);
+      if (joinedCost === SUB_COST) continue;
+      joined[i * cols + j] = joinedCost;
+      cost[i * cols + j] = Math.min(cost[i * cols + j], cost[start * cols + j - 1] + joinedCost);
+    }
+  }
+
+  const ops: { op: AlignOp; master?: Unit; user?: Unit }[] = [];
+  let i = master.length; let j = user.length;
+  while (i > 0 || j > 0) {
+    const here = cost[i * cols + j];
+    const start = i > 0 ? starts[i - 1] : -1;
+    const joinedCost = i > 0 && j > 0 ? joined[i * cols + j] : -1;
+    if (joinedCost >= 0 && here === cost[start * cols + j - 1] + joinedCost) {
+      for (let k = i - 1; k >= start; k--) ops.push({ op: joinedCost === MATCH_COST ? 'match' : 'typo', master: master[k], user: user[j - 1] });
+      i = start; j--;
+    } else if (i > 0 && j > 0 && here === cost[(i - 1) * cols + j - 1] + pair[i * cols + j]) {
+      const p = pair[i * cols + j];
+      ops.push({ op: p === MATCH_COST ? 'match' : p === TYPO_COST ? 'typo' : 'sub', master: master[i - 1], user: user[j - 1] });
+      i--; j--;
+    } else if (i > 0 && here === cost[(i - 1) * cols + j] + GAP_COST) {
+      ops.push({ op: 'del', master: master[i - 1] }); i--;
+    } else {
+      ops.push({ op: 'ins', user: user[j - 1] }); j--;
+    }
+  }
+  return ops.reverse();
+};
+
+const statusOf = (ops: AlignOp[]): WordStatus => {
+  if (ops.every(op => op === 'del')) return 'missing';
+  if (ops.every(op => op === 'match')) return 'correct';
+  if (ops.every(op => op === 'match' || op === 'typo')) return 'misspelled';
+  return 'incorrect';
+};
+
+// Spelling is judged only on words that were written down, wrong words included; skipped words count against completeness instead.
+export const scoreWords = (words: WordResult[]): DiffScores => {
+  const count = (status: WordStatus) => words.filter(w => w.status === status).length;
+  const correct = count('correct');
+  const misspelled = count('misspelled');
+  const missing = count('missing');
+  const written = words.length - missing;
+  const extra = words.reduce((sum, w) => sum + w.extra, 0);
+  return {
+    score: Math.round(((correct + misspelled / 2) / Math.max(1, words.length + extra)) * 100),
+    spelling: written ? Math.round((correct / written) * 100) : 100,
+    completeness: Math.round(((words.length - missing) / Math.max(1, words.length)) * 100),
+    missing,
+    misspelled
+  };
+};
+
+export const getDictationDiff = (userText: string, masterText: string): DictationDiff => {
+  const masterWords = splitWords(masterText);
+  const userWords = splitWords(userText);
+  const masterUnits = toUnits(masterWords);
+  const userUnits = toUnits(userWords);
+  const ops = align(masterUnits, userUnits, masterWords.map(joinedForm));
+  const masterCovered = new Set(masterUnits.map(u => u.word));
+  const userCovered = new Set(userUnits.map(u => u.word));
+
+  // Units that came from the same word on either side belong together, so "I'd" against
+  // "I would" becomes one token. Alignment is monotonic, so groups are always contiguous.
+  const groups: { master: number[]; user: number[]; ops: AlignOp[] }[] = [];
+  ops.forEach(({ op, master, user }) => {
+    const group = groups[groups.length - 1];
+    const joins = group && ((master && group.master[group.master.length - 1] === master.word) || (user && group.user[group.user.length - 1] === user.word));
+    const target = joins ? group : { master: [], user: [], ops: [] };
+    if (!joins) groups.push(target);
+    if (master && target.master[target.master.length - 1] !== master.word) target.master.push(master.word);
+    if (user && target.user[target.user.length - 1] !== user.word) target.user.push(user.word);
+    target.ops.push(op);
+  });
+
+  // Words that expand to nothing (a lone dash) cannot be typed wrong and count as correct.
+  const wordOps: AlignOp[][] = masterWords.map(() => []);
+  ops.forEach(({ op, master }) => { if (master) wordOps[master.word].push(op); });
+  const words: WordResult[] = wordOps.map(o => ({ status: o.length ? statusOf(o) : 'correct', extra: 0 }));
+
+  let lastWord = 0;
+  const tokens: DiffToken[] = groups.map(g => {
+    const text = g.user.length ? spanText(userWords, g.user, userCovered) : '';
+    if (!g.master.length) {
+      if (words.length) words[lastWord].extra += g.user.length;
+      return { text, status: 'extra' };
+    }
+    lastWord = g.master[g.master.length - 1];
+    return { text, status: statusOf(g.ops.filter(op => op !== 'ins').concat(g.ops.includes('ins') ? ['sub'] : [])), expected: spanText(masterWords, g.master, masterCovered) };
+  });
+
+  return { tokens, words, ...scoreWords(words) };
+};
+
+// Splits the per-word results back into the dialogue's lines; the master text is the lines joined by spaces.
+export const getLineScores = (words: WordResult[], lines: DialogueLine[]): DiffScores[] => {
+  let start = 0;
+  return lines.map(l => {
+    const length = splitWords(l.text).length;
+    const lineWords = words.slice(start, start + length);
+    start += length;
+    return scoreWords(lineWords);
+  });
+};
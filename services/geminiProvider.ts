@@ -0,0 +1,82 @@
+import { GoogleGenAI, Modality, Type, GenerateContentParameters, Schema } from "@google/genai";
+import { AiProvider, ProviderConfig, JsonSchema, resolveModel, blobToBase64 } from "./aiProvider";
+import { runRequest } from "./requestManager";
+import { hashText } from "./audioCache";
+
+export const getGeminiApiKey = () => {
+  return process.env.API_KEY || localStorage.getItem('GEMINI_API_KEY') || '';
+};
+
+const getAiClient = () => {
+  const key = getGeminiApiKey();
+  if (!key) return null;
+  return new GoogleGenAI({ apiKey: key });
+};
+
+// Identical params share one in-flight call; audio requests pass their own key since blobs don't serialise.
+const generate = (params: GenerateContentParameters, signal?: AbortSignal, dedupeKey?: string): Promise<any> => {
+  const ai = getAiClient();
+  if (!ai) return Promise.reject(new Error("MISSING_API_KEY"));
+  return runRequest({
+    model: `gemini/${params.model}`,
+    dedupeKey: `gemini:${dedupeKey ?? hashText(JSON.stringify(params))}`,
+    signal,
+    getUsage: (response: any) => response.usageMetadata && { inputTokens: response.usageMetadata.promptTokenCount || 0, outputTokens: response.usageMetadata.candidatesTokenCount || 0 }
+  }, abortSignal => ai.models.generateContent({ ...params, config: { ...params.config, abortSignal } }));
+};
+
+function decodeBase64(base64: string): Uint8Array {
+  const binaryString = atob(base64.trim().replace(/^data:audio\/\w+;base64,/, '').replace(/[\n\r\s]/g, ''));
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+  return bytes;
+}
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.properties && { properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])) }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required })
+});
+
+export const createGeminiProvider = (config: ProviderConfig): AiProvider => ({
+  id: 'gemini',
+
+  async generateText({ prompt, system, signal }) {
+    const response = await generate({ model: resolveModel(config, 'text'), contents: prompt, config: { systemInstruction: system } }, signal);
+    return response.text;
+  },
+
+  async generateJson({ prompt, system, schema, signal }) {
+    const response = await generate({
+      model: resolveModel(config, 'structured'),
+      contents: prompt,
+      config: { systemInstruction: system, responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) }
+    }, signal);
+    return response.text;
+  },
+
+  async synthesizeSpeech(text, voice, signal) {
+    const response = await generate({
+      model: resolveModel(config, 'speech'),
+      contents: [{ parts: [{ text }] }],
+      config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } } },
+    }, signal);
+    return decodeBase64(response.candidates[0].content.parts[0].inlineData.data);
+  },
+
+  async analyzeAudio({ prompt, system, schema, audio, signal }) {
+    const data = await blobToBase64(audio);
+    const response = await generate({
+      model: resolveModel(config, 'audio'),
+      contents: { parts: [{ inlineData: { mimeType: audio.type, data } }, { text: prompt }] },
+      config: { systemInstruction: system, responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) }
+    }, signal, `${hashText(`${prompt}:${system}:${data}`)}:${data.length}`);
+    return response.text;
+  },
+
+  async defineWord(word, context, signal) {
+    const response = await generate({ model: resolveModel(config, 'text'), contents: `Definition of "${word}" in context: "${context}". Max 15 words.` }, signal);
+    return response.text;
+  }
+});
@@ -1,31 +1,23 @@
-import { GoogleGenAI, Modality, Type, GenerateContentParameters } from "@google/genai";
-import { FeedbackResult, Dialogue, ContentCategory } from "../types";
-import { getRandomImageForCategory, STORAGE_KEYS } from "../constants";
+import { FeedbackResult, Dialogue, DialogueLine, ContentCategory, LineTiming, Language } from "../types";
+import { getRandomImageForCategory, DEFAULT_VOICE, PLAYBACK_RATE } from "../constants";
+import { getCachedPcm, putCachedPcm } from "./audioCache";
+import { renderTimeStretch } from "./timeStretch";
+import { AiProvider, JsonSchema, loadProviderConfig } from "./aiProvider";
+import { createGeminiProvider, getGeminiApiKey } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createMockProvider } from "./mockProvider";
+import { ModelResponseError, Validator, parseModelJson, validateDialogueDraft, createFeedbackValidator, createTranslationValidator, validateDefinition, buildRepairPrompt } from "./responseValidation";
 
-const getApiKey = () => {
-  return process.env.API_KEY || localStorage.getItem('GEMINI_API_KEY') || '';
+// Re-read on every call so a provider switch in settings applies without reloading services.
+export const getProvider = (): AiProvider => {
+  const config = loadProviderConfig();
+  if (config.provider === 'openai') return createOpenAiProvider(config);
+  if (config.provider === 'mock') return createMockProvider();
+  return createGeminiProvider(config);
 };
 
-const getAiClient = () => {
-  const key = getApiKey();
-  if (!key) return null;
-  return new GoogleGenAI({ apiKey: key });
-};
-
-async function safeGenerateContent(params: GenerateContentParameters, retries = 3, delay = 1500): Promise<any> {
-  const ai = getAiClient();
-  if (!ai) throw new Error("MISSING_API_KEY");
-  try {
-    return await ai.models.generateContent(params);
-  } catch (error: any) {
-    const isRateLimit = error?.status === 429 || error?.message?.includes('429');
-    if (isRateLimit && retries > 0) {
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return safeGenerateContent(params, retries - 1, delay * 2);
-    }
-    throw error;
-  }
-}
+// Only Gemini is unusable without a key; OpenAI-compatible servers may run keyless on localhost.
+export const needsApiKey = () => loadProviderConfig().provider === 'gemini' && !getGeminiApiKey();
 
 let sharedAudioContext: AudioContext | null = null;
 export const getSharedAudioContext = (): AudioContext => {
@@ -42,13 +34,6 @@ export const blobToAudioBuffer = async (blob: Blob): Promise<AudioBuffer> => {
   return await audioContext.decodeAudioData(arrayBuffer);
 };
 
-function decodeBase64(base64: string): Uint8Array {
-  const binaryString = atob(base64.trim().replace(/^data:audio\/\w+;base64,/, '').replace(/[\n\r\s]/g, ''));
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-  return bytes;
-}
-
 export const rawPcmToAudioBuffer = (pcmData: Uint8Array, audioContext: AudioContext, sampleRate: number = 24000): AudioBuffer => {
   const usableLength = pcmData.length - (pcmData.length % 2);
   const view = new DataView(pcmData.buffer, pcmData.byteOffset, usableLength);
@@ -59,9 +44,18 @@ export const rawPcmToAudioBuffer = (pcmData: Uint8Array, audioContext: AudioCont
   return audioBuffer;
 };
 
+// Stretched copies kept per player; a few rates cover switching back and forth without re-rendering.
+const MAX_STRETCHED_BUFFERS = 3;
+
+// All positions (offsets, loop ranges, segment ends) are in seconds of the original buffer, whatever the rate.
 export class PCMPlayer {
   private audioContext: AudioContext = getSharedAudioContext();
   private buffer: AudioBuffer | null = null;
+  private stretched = new Map<number, Promise<AudioBuffer>>();
+  private rendering = 0;
+  // Bumped by pause/stop so a start still waiting on a stretch render knows it was cancelled.
+  private startToken = 0;
+  private isStarting = false;
   private source: AudioBufferSourceNode | null = null;
   private isPlaying: boolean = false;
   private playbackRate: number = 1.0;
@@ -70,16 +64,56 @@ export class PCMPlayer {
   private onProgressCb?: (c: number, d: number) => void;
   private onEndedCb?: () => void;
   private loop: boolean = false;
+  private loopRange: LineTiming | null = null;
+  private segmentEnd: number | null = null;
   private animationFrameId: number | null = null;
+  // Told when a new rate starts and finishes rendering, so the UI can show it is busy.
+  onRenderingChange?: (rendering: boolean) => void;
 
   load(rawPcm: Uint8Array) { 
     this.buffer = rawPcmToAudioBuffer(rawPcm, this.audioContext); 
+    this.stretched.clear();
     this.pauseOffset = 0; 
   }
+
+  // For audio that is already decoded, e.g. an uploaded recording.
+  loadBuffer(buffer: AudioBuffer) {
+    this.stop();
+    this.buffer = buffer;
+    this.stretched.clear();
+  }
   
+  // A new rate needs a differently stretched buffer, so a playing source is restarted from the same position.
+  // A paused player starts rendering the new rate straight away so the next play is instant.
   setRate(rate: number) { 
-    this.playbackRate = rate; 
-    if (this.source) this.source.playbackRate.value = rate;
+    const clamped = Math.max(PLAYBACK_RATE.MIN, Math.min(PLAYBACK_RATE.MAX, rate));
+    if (clamped === this.playbackRate) return;
+    const wasPlaying = this.isPlaying || this.isStarting;
+    this.pause();
+    this.playbackRate = clamped; 
+    if (wasPlaying) this.start();
+    else if (this.buffer) this.getPlaybackBuffer();
+  }
+
+  // Rendered off the main thread on first use at each rate; the stretched buffer runs 1/rate times as long as the original.
+  private getPlaybackBuffer(): Promise<AudioBuffer> {
+    if (this.playbackRate === 1 || !this.buffer) return Promise.resolve(this.buffer!);
+    let stretched = this.stretched.get(this.playbackRate);
+    if (!stretched) {
+      if (this.rendering++ === 0) this.onRenderingChange?.(true);
+      stretched = renderTimeStretch(this.buffer, this.playbackRate, this.audioContext)
+        .finally(() => { if (--this.rendering === 0) this.onRenderingChange?.(false); });
+      this.stretched.set(this.playbackRate, stretched);
+      if (this.stretched.size > MAX_STRETCHED_BUFFERS) this.stretched.delete(this.stretched.keys().next().value!);
+    }
+    return stretched;
+  }
+
+  // Restricts looping to a sub-range of the buffer (e.g. a single line); null restores whole-track behaviour.
+  setLoopRange(range: LineTiming | null) {
+    const current = this.getCurrentTime();
+    this.loopRange = range;
+    if (this.isPlaying) this.seek(range ? range.start : current);
   }
 
   private startProgressTimer() {
@@ -91,121 +125,262 @@ export class PCMPlayer {
     };
     this.animationFrameId = requestAnimationFrame(update);
   }
-  
-  async play(onProgress?: (c: number, d: number) => void, onEnded?: () => void, loop: boolean = false) {
+
+  private async start() {
     if (this.audioContext.state === 'suspended') await this.audioContext.resume();
     if (!this.buffer || this.isPlaying) return;
-    this.onProgressCb = onProgress;
-    this.onEndedCb = onEnded;
-    this.loop = loop;
-    this.source = this.audioContext.createBufferSource();
-    this.source.buffer = this.buffer;
-    this.source.playbackRate.value = this.playbackRate;
-    this.source.loop = this.loop;
-    this.source.connect(this.audioContext.destination);
-    this.source.onended = () => { if (!this.loop) { this.isPlaying = false; if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId); onEnded?.(); } };
-    this.source.start(0, this.pauseOffset);
+    const token = ++this.startToken;
+    const original = this.buffer;
+    const rate = this.playbackRate;
+    this.isStarting = true;
+    const playback = await this.getPlaybackBuffer();
+    // A pause, stop, new load or rate change while the stretch rendered supersedes this start.
+    if (token !== this.startToken) return;
+    this.isStarting = false;
+    if (this.buffer !== original || this.playbackRate !== rate || this.isPlaying) return;
+    const source = this.audioContext.createBufferSource();
+    source.buffer = playback;
+    if (this.loopRange) {
+      source.loop = true;
+      source.loopStart = this.loopRange.start / rate;
+      source.loopEnd = this.loopRange.end / rate;
+      if (this.pauseOffset < this.loopRange.start || this.pauseOffset >= this.loopRange.end) this.pauseOffset = this.loopRange.start;
+    } else {
+      source.loop = this.loop;
+    }
+    source.connect(this.audioContext.destination);
+    // Only react to the natural end of the current source; stop() during pause/seek detaches it first.
+    source.onended = () => {
+      if (this.source !== source) return;
+      this.source = null;
+      this.isPlaying = false;
+      if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+      this.pauseOffset = this.segmentEnd ?? 0;
+      this.segmentEnd = null;
+      this.onEndedCb?.();
+    };
+    if (this.segmentEnd !== null && !source.loop) source.start(0, this.pauseOffset / rate, Math.max(0, this.segmentEnd - this.pauseOffset) / rate);
+    else source.start(0, this.pauseOffset / rate);
+    this.source = source;
     this.startTime = this.audioContext.currentTime;
     this.isPlaying = true;
     this.startProgressTimer();
   }
+  
+  async play(onProgress?: (c: number, d: number) => void, onEnded?: () => void, loop: boolean = false) {
+    if (this.isPlaying) return;
+    this.onProgressCb = onProgress;
+    this.onEndedCb = onEnded;
+    this.loop = loop;
+    this.segmentEnd = null;
+    await this.start();
+  }
+
+  // Plays [range.start, range.end) once and stops, leaving the playhead at the end of the range.
+  async playSegment(range: LineTiming, onProgress?: (c: number, d: number) => void, onEnded?: () => void) {
+    this.stop();
+    this.onProgressCb = onProgress;
+    this.onEndedCb = onEnded;
+    this.loop = false;
+    this.pauseOffset = range.start;
+    this.segmentEnd = range.end;
+    await this.start();
+  }
 
   pause() { 
+    this.startToken++; this.isStarting = false;
     if (!this.isPlaying) return;
-    this.pauseOffset += (this.audioContext.currentTime - this.startTime) * this.playbackRate;
-    this.source?.stop();
+    this.pauseOffset = this.getCurrentTime();
+    const source = this.source;
     this.source = null;
+    source?.stop();
     this.isPlaying = false;
     if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
   }
 
   stop() { 
-    this.source?.stop(); 
+    this.startToken++; this.isStarting = false;
+    const source = this.source;
     this.source = null;
+    source?.stop(); 
     this.isPlaying = false; 
     this.pauseOffset = 0; 
     if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
   }
 
   seek(seconds: number) {
-    const wasPlaying = this.isPlaying;
+    const wasPlaying = this.isPlaying || this.isStarting;
     this.stop();
-    this.pauseOffset = seconds;
-    if (wasPlaying) this.play(this.onProgressCb, this.onEndedCb, this.loop);
+    this.pauseOffset = Math.max(0, Math.min(seconds, this.getDuration()));
+    if (wasPlaying) this.start();
   }
 
   getDuration() { return this.buffer?.duration || 0; }
   getCurrentTime() { 
     if (!this.isPlaying) return this.pauseOffset;
     let time = this.pauseOffset + (this.audioContext.currentTime - this.startTime) * this.playbackRate;
-    if (this.loop && this.buffer) time = time % this.buffer.duration;
+    if (this.loopRange && time >= this.loopRange.end) {
+      const span = this.loopRange.end - this.loopRange.start;
+      time = this.loopRange.start + ((time - this.loopRange.start) % span);
+    } else if (this.loop && this.buffer) {
+      time = time % this.buffer.duration;
+    }
+    if (this.segmentEnd !== null) time = Math.min(time, this.segmentEnd);
     return time;
   }
 }
 
-export const fetchTtsAudio = async (text: string): Promise<{ rawPcm: Uint8Array }> => {
-  const response = await safeGenerateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text }] }],
-    config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } } } },
-  });
-  return { rawPcm: decodeBase64(response.candidates[0].content.parts[0].inlineData.data) };
+export const fetchTtsAudio = async (text: string, voiceName: string = DEFAULT_VOICE, signal?: AbortSignal): Promise<{ rawPcm: Uint8Array }> => {
+  return { rawPcm: await getProvider().synthesizeSpeech(text, voiceName, signal) };
 };
 
-export const analyzeRecitation = async (audioBlob: Blob, referenceText: string): Promise<FeedbackResult> => {
-  const reader = new FileReader();
-  const base64 = await new Promise<string>(r => { reader.onloadend = () => r((reader.result as string).split(',')[1]); reader.readAsDataURL(audioBlob); });
-  const response = await safeGenerateContent({
-    model: "gemini-3-pro-preview",
-    contents: { parts: [{ inlineData: { mimeType: audioBlob.type, data: base64 } }, { text: `Analyze pronunciation for: "${referenceText}". Return JSON: score(0-100), transcription, pronunciationAnalysis, intonationAnalysis, tips(array of 3).` }] },
-    config: { responseMimeType: "application/json" }
-  });
-  return JSON.parse(response.text);
+const TTS_SAMPLE_RATE = 24000;
+const LINE_GAP_SECONDS = 0.35;
+
+// Also used for single sentences outside a dialogue view, e.g. vocabulary flashcards.
+export const fetchLineAudio = async (dialogueId: string, text: string, voice: string, signal?: AbortSignal): Promise<Uint8Array> => {
+  const cached = await getCachedPcm(dialogueId, text, voice);
+  if (cached) return cached;
+  const { rawPcm } = await fetchTtsAudio(text.trim() || "No content.", voice, signal);
+  await putCachedPcm(dialogueId, text, voice, rawPcm);
+  return rawPcm;
 };
 
-export const generateStudyMaterial = async (input: string, mode: 'topic' | 'text', difficulty: string, contentType: string): Promise<Dialogue> => {
-  const isDailyRecite = input.toLowerCase().includes("daily recite") || input.includes("每日背诵");
+// Synthesises each line separately in its speaker's voice and stitches the PCM into one timeline so line boundaries are exact.
+// Line clips are served from the offline cache when present.
+export const fetchDialogueAudio = async (dialogueId: string, lines: DialogueLine[], cast: Record<string, string> = {}, signal?: AbortSignal): Promise<{ rawPcm: Uint8Array; timings: LineTiming[] }> => {
+  const bytesPerSecond = TTS_SAMPLE_RATE * 2;
+  const gap = new Uint8Array(Math.round(LINE_GAP_SECONDS * TTS_SAMPLE_RATE) * 2);
+  const chunks: Uint8Array[] = [];
+  const timings: LineTiming[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    const rawPcm = await fetchLineAudio(dialogueId, line.text, cast[line.speaker || ''] || DEFAULT_VOICE, signal);
+    const pcm = rawPcm.subarray(0, rawPcm.length - (rawPcm.length % 2));
+    timings.push({ start: offset / bytesPerSecond, end: (offset + pcm.length) / bytesPerSecond });
+    chunks.push(pcm, gap);
+    offset += pcm.length + gap.length;
+  }
+  const stitched = new Uint8Array(offset);
+  let pos = 0;
+  for (const chunk of chunks) { stitched.set(chunk, pos); pos += chunk.length; }
+  return { rawPcm: stitched, timings };
+};
+
+// Parses and validates a structured reply; on failure the model gets one retry with the problem spelled out.
+const requestValidated = async <T>(send: (prompt: string) => Promise<string>, prompt: string, validate: Validator<T>): Promise<T> => {
+  const first = await send(prompt);
+  try {
+    return validate(parseModelJson(first));
+  } catch (e) {
+    if (!(e instanceof ModelResponseError)) throw e;
+    const retry = await send(`${prompt}\n\n${buildRepairPrompt(e, first)}`);
+    try {
+      return validate(parseModelJson(retry));
+    } catch (retryError) {
+      if (retryError instanceof ModelResponseError) retryError.raw = retry;
+      throw retryError;
+    }
+  }
+};
+
+// Shape of a generated or AI-tidied dialogue; ids, category and artwork are filled in locally.
+const DIALOGUE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    scenario: { type: 'string' },
+    lines: { type: 'array', items: { type: 'object', properties: { speaker: { type: 'string' }, text: { type: 'string' } }, required: ["speaker", "text"] } }
+  },
+  required: ["title", "scenario", "lines"]
+};
+
+const FEEDBACK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number' },
+    transcription: { type: 'string' },
+    pronunciationAnalysis: { type: 'string' },
+    intonationAnalysis: { type: 'string' },
+    tips: { type: 'array', items: { type: 'string' } },
+    lines: { type: 'array', items: { type: 'object', properties: { lineIndex: { type: 'integer' }, score: { type: 'number' }, transcription: { type: 'string' }, mispronouncedWords: { type: 'array', items: { type: 'string' } } }, required: ["lineIndex", "score", "transcription", "mispronouncedWords"] } },
+    words: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          lineIndex: { type: 'integer' },
+          wordIndex: { type: 'integer' },
+          expected: { type: 'string' },
+          heard: { type: 'string' },
+          score: { type: 'number' },
+          phonemes: { type: 'array', items: { type: 'object', properties: { expected: { type: 'string' }, heard: { type: 'string' }, note: { type: 'string' } }, required: ["expected", "heard", "note"] } }
+        },
+        required: ["lineIndex", "wordIndex", "expected", "heard", "score", "phonemes"]
+      }
+    }
+  },
+  required: ["score", "transcription", "pronunciationAnalysis", "intonationAnalysis", "tips", "lines", "words"]
+};
+
+// The model aligns one recording of the whole dialogue back onto the numbered lines so each line gets its own score.
+export const analyzeRecitation = async (audioBlob: Blob, lines: DialogueLine[], signal?: AbortSignal): Promise<FeedbackResult> => {
+  const numbered = lines.map((l, i) => `${i}. ${l.text.split(/\s+/).filter(Boolean).map((w, j) => `[${j}]${w}`).join(' ')}`).join('\n');
+  const provider = getProvider();
+  return requestValidated(
+    prompt => provider.analyzeAudio({ audio: audioBlob, prompt, schema: FEEDBACK_SCHEMA, signal }),
+    `Analyze pronunciation of this recording against the reference lines:\n${numbered}\nAlign the transcription to each line by its number. For every line give a score (0-100), what was heard, and the words that were mispronounced or skipped. For every reference word (identified by line number and [word index]) give what was heard, a score (0-100) and the problem phonemes as expected vs heard IPA with a short note; leave phonemes empty for well-pronounced words. Also give an overall score, full transcription, a short pronunciationAnalysis summary, intonationAnalysis and 3 tips.`,
+    createFeedbackValidator(lines)
+  );
+};
+
+export const generateStudyMaterial = async (input: string, mode: 'topic' | 'text', difficulty: string, contentType: string, signal?: AbortSignal): Promise<Dialogue> => {
+  const isDailyRecite = mode === 'topic' && (input.toLowerCase().includes("daily recite") || input.includes("每日背诵"));
   
   const systemInstruction = isDailyRecite 
     ? "You are a specialized language master. Create exactly 2 or 3 VERY SHORT dialogues for memorization. The TOTAL COMBINED word count of all dialogues MUST be between 50 and 70 words. This is crucial for mastery. Use simple, high-frequency, natural English. Respond ONLY in valid JSON."
-    : `Create a ${difficulty} ${contentType} about "${input}". Use natural language.`;
+    : mode === 'text'
+      ? `Split the user's text into a ${difficulty} ${contentType}. Keep the original wording; only fix obvious transcription errors and assign speakers.`
+      : `Create a ${difficulty} ${contentType} about "${input}". Use natural language.`;
 
   const prompt = isDailyRecite 
     ? `Mastery Topic: "${input}". Provide 2-3 short dialogues. Total word count: 50-70 words. Return JSON with title, scenario, and lines.`
-    : `Generate content for: "${input}". Format: JSON.`;
-
-  const response = await safeGenerateContent({
-    model: "gemini-3-pro-preview",
-    contents: prompt,
-    config: {
-      systemInstruction,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          scenario: { type: Type.STRING },
-          lines: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { speaker: { type: Type.STRING }, text: { type: Type.STRING } }, required: ["speaker", "text"] } }
-        },
-        required: ["title", "scenario", "lines"]
-      }
-    }
-  });
-  const data = JSON.parse(response.text);
-  return { ...data, id: `gen_${Date.now()}`, difficulty, category: isDailyRecite ? 'Daily' : 'Interview', duration: '1 min', imageUrl: getRandomImageForCategory(isDailyRecite ? 'Daily' : 'Interview') };
+    : mode === 'text'
+      ? `Text:\n${input}\n\nReturn JSON with a short title, a one-sentence scenario, and lines.`
+      : `Generate content for: "${input}". Format: JSON.`;
+
+  const provider = getProvider();
+  const data = await requestValidated(p => provider.generateJson({ prompt: p, system: systemInstruction, schema: DIALOGUE_SCHEMA, signal }), prompt, validateDialogueDraft);
+  return { ...data, id: `gen_${Date.now()}`, difficulty: difficulty as Dialogue['difficulty'], category: isDailyRecite ? 'Daily' : 'Interview', duration: '1 min', imageUrl: getRandomImageForCategory(isDailyRecite ? 'Daily' : 'Interview') };
+};
+
+export const generateContentByFilter = async (category: ContentCategory, difficulty: string, duration: string, signal?: AbortSignal): Promise<Dialogue> => {
+  const provider = getProvider();
+  const data = await requestValidated(prompt => provider.generateJson({ prompt, schema: DIALOGUE_SCHEMA, signal }), `Generate a ${difficulty} ${category} lesson. JSON: title, scenario, lines.`, validateDialogueDraft);
+  return { ...data, id: `auto_${Date.now()}`, difficulty: difficulty as Dialogue['difficulty'], category, duration, imageUrl: getRandomImageForCategory(category) };
+};
+
+const TRANSLATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    lines: { type: 'array', items: { type: 'object', properties: { lineIndex: { type: 'integer' }, translation: { type: 'string' } }, required: ["lineIndex", "translation"] } }
+  },
+  required: ["lines"]
 };
 
-export const generateContentByFilter = async (category: ContentCategory, difficulty: string, duration: string): Promise<Dialogue> => {
-  const response = await safeGenerateContent({
-    model: "gemini-3-pro-preview",
-    contents: `Generate a ${difficulty} ${category} lesson. JSON: title, scenario, lines.`,
-    config: { responseMimeType: "application/json" }
-  });
-  const data = JSON.parse(response.text);
-  return { ...data, id: `auto_${Date.now()}`, difficulty, category, duration, imageUrl: getRandomImageForCategory(category) };
+const TRANSLATION_LANGUAGES: Record<Language, string> = { en: 'English', zh: 'Simplified Chinese' };
+
+// Returns one translation per line, in line order; lines the model skipped are empty strings.
+export const translateLines = async (lines: DialogueLine[], language: Language, signal?: AbortSignal): Promise<string[]> => {
+  const numbered = lines.map((l, i) => `${i}. ${l.text}`).join('\n');
+  const provider = getProvider();
+  return requestValidated(
+    prompt => provider.generateJson({ prompt, schema: TRANSLATION_SCHEMA, signal }),
+    `Translate each numbered line into natural ${TRANSLATION_LANGUAGES[language]} for a language learner. Stay close to the meaning of the original so the learner can translate it back. Lines:\n${numbered}\nReturn JSON with one {lineIndex, translation} entry per line.`,
+    createTranslationValidator(lines.length)
+  );
 };
 
-export const getWordDefinition = async (word: string, context: string): Promise<string> => {
-  const response = await safeGenerateContent({ model: "gemini-3-flash-preview", contents: `Definition of "${word}" in context: "${context}". Max 15 words.` });
-  return response.text;
+export const getWordDefinition = async (word: string, context: string, signal?: AbortSignal): Promise<string> => {
+  return validateDefinition(await getProvider().defineWord(word, context, signal));
 };
\ No newline at end of file
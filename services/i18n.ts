@@ -0,0 +1,39 @@
+import { createContext, useContext } from "react";
+import { Language } from "../types";
+import { STORAGE_KEYS } from "../constants";
+import { en, MessageKey } from "../locales/en";
+import { zh } from "../locales/zh";
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGUES: Record<Language, Record<MessageKey, string>> = { en, zh };
+const LOCALES: Record<Language, string> = { en: 'en-US', zh: 'zh-CN' };
+
+export interface I18n {
+  language: Language;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (date: Date | number, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export const loadLanguage = (): Language => localStorage.getItem(STORAGE_KEYS.LANGUAGE) === 'zh' ? 'zh' : 'en';
+
+export const saveLanguage = (language: Language) => localStorage.setItem(STORAGE_KEYS.LANGUAGE, language);
+
+// Unknown placeholders are left visible so a missing param shows up in the UI instead of silently vanishing.
+export const translate = (language: Language, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGUES[language][key] ?? en[key] ?? key;
+  return params ? message.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : message;
+};
+
+export const createI18n = (language: Language): I18n => ({
+  language,
+  t: (key, params) => translate(language, key, params),
+  formatDate: (date, options) => new Date(date).toLocaleDateString(LOCALES[language], options),
+  formatNumber: (value, options) => value.toLocaleString(LOCALES[language], options)
+});
+
+export const I18nContext = createContext<I18n>(createI18n('en'));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,44 @@
+import { Dialogue } from "../types";
+import { STORAGE_KEYS } from "../constants";
+import { removeReview } from "./reviewScheduler";
+import { deleteDialogueAudio } from "./audioCache";
+
+// Accepts either a comma separated string from an input or an existing list.
+export const normalizeTags = (input: string | string[]): string[] => {
+  const raw = Array.isArray(input) ? input : input.split(',');
+  return Array.from(new Set(raw.map(t => t.trim().toLowerCase().replace(/^#/, '')).filter(Boolean)));
+};
+
+export const collectTags = (dialogues: Dialogue[]): string[] =>
+  Array.from(new Set(dialogues.flatMap(d => d.tags || []))).sort();
+
+// Every whitespace separated term must appear somewhere in the title, scenario, tags or line text.
+export const matchesSearch = (dialogue: Dialogue, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [
+    dialogue.title,
+    dialogue.scenario,
+    ...(dialogue.tags || []),
+    ...dialogue.lines.flatMap(l => [l.speaker, l.text])
+  ].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+// The uploaded recording is stored under the original id, so the copy falls back to TTS and drops the cues aligned to it.
+export const duplicateDialogue = (dialogue: Dialogue, title: string): Dialogue => ({
+  ...dialogue,
+  id: `copy_${Date.now()}`,
+  title,
+  recording: undefined,
+  lines: dialogue.lines.map(({ cue, ...l }) => dialogue.recording ? l : { ...l, cue }),
+  cast: dialogue.cast ? { ...dialogue.cast } : undefined,
+  tags: dialogue.tags ? [...dialogue.tags] : undefined
+});
+
+// Drops everything stored alongside a dialogue. Only called once its undo window has passed.
+export const purgeDialogueData = async (dialogueId: string) => {
+  localStorage.removeItem(`${STORAGE_KEYS.SESSION_PREFIX}${dialogueId}`);
+  removeReview(dialogueId);
+  await deleteDialogueAudio(dialogueId);
+};
@@ -0,0 +1,79 @@
+import { AiProvider, JsonSchema } from "./aiProvider";
+import { hashText } from "./audioCache";
+
+const SAMPLE_RATE = 24000;
+const SENTENCES = [
+  "Could you tell me where the nearest station is?",
+  "Sure, it's just around the corner on the left.",
+  "I usually grab a coffee before my first meeting.",
+  "That sounds like a great plan for the weekend.",
+  "Let me check my calendar and get back to you.",
+  "We should probably leave a little earlier today."
+];
+
+// Mulberry32: tiny seeded PRNG, so the same prompt always yields the same output.
+const createRandom = (seedText: string) => {
+  let seed = parseInt(hashText(seedText), 16);
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Field names steer the filler so mock dialogues and feedback look plausible in the UI.
+const fillSchema = (schema: JsonSchema, random: () => number, key = '', index = 0): any => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([k, v]) => [k, fillSchema(v, random, k, index)]));
+    case 'array':
+      return Array.from({ length: key === 'tips' ? 3 : 4 }, (_, i) => fillSchema(schema.items!, random, key, i));
+    case 'integer':
+      return key.endsWith('Index') ? index : Math.floor(random() * 10);
+    case 'number':
+      return Math.round(65 + random() * 30);
+    case 'boolean':
+      return random() > 0.5;
+    default:
+      if (key === 'speaker') return index % 2 === 0 ? 'A' : 'B';
+      if (key === 'title') return 'Mock Lesson';
+      if (key === 'scenario') return 'A deterministic practice dialogue for offline demos.';
+      if (key === 'text' || key === 'transcription' || key === 'heard' || key === 'expected') return SENTENCES[Math.floor(random() * SENTENCES.length)];
+      return `Mock ${key || 'value'} ${index + 1}`;
+  }
+};
+
+// One voiced "syllable" per word at a pitch derived from the voice name, so different speakers sound different.
+const synthesizeTones = (text: string, voice: string): Uint8Array => {
+  const words = Math.max(1, text.split(/\s+/).filter(Boolean).length);
+  const pitch = 110 + (parseInt(hashText(voice), 16) % 110);
+  const wordSamples = Math.round(0.28 * SAMPLE_RATE);
+  const gapSamples = Math.round(0.08 * SAMPLE_RATE);
+  const pcm = new DataView(new ArrayBuffer(words * (wordSamples + gapSamples) * 2));
+  let pos = 0;
+  for (let w = 0; w < words; w++) {
+    const wordPitch = pitch * (1 + 0.08 * Math.sin(w));
+    for (let i = 0; i < wordSamples; i++) {
+      const t = i / SAMPLE_RATE;
+      const envelope = Math.sin((Math.PI * i) / wordSamples);
+      const sample = envelope * 0.3 * (Math.sin(2 * Math.PI * wordPitch * t) + 0.4 * Math.sin(4 * Math.PI * wordPitch * t));
+      pcm.setInt16(pos, sample * 0x7fff, true); pos += 2;
+    }
+    pos += gapSamples * 2;
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+// Replies are instant, so cancellation only needs checking up front.
+const unlessAborted = <T>(signal: AbortSignal | undefined, reply: () => T): Promise<T> =>
+  signal?.aborted ? Promise.reject(new DOMException('The request was cancelled.', 'AbortError')) : Promise.resolve(reply());
+
+export const createMockProvider = (): AiProvider => ({
+  id: 'mock',
+  generateText: ({ prompt, signal }) => unlessAborted(signal, () => `Mock response for: ${prompt.slice(0, 80)}`),
+  generateJson: ({ prompt, schema, signal }) => unlessAborted(signal, () => JSON.stringify(fillSchema(schema, createRandom(prompt)))),
+  synthesizeSpeech: (text, voice, signal) => unlessAborted(signal, () => synthesizeTones(text, voice)),
+  analyzeAudio: ({ prompt, schema, audio, signal }) => unlessAborted(signal, () => JSON.stringify(fillSchema(schema, createRandom(`${prompt}:${audio.size}`)))),
+  defineWord: (word, context, signal) => unlessAborted(signal, () => `(mock) "${word}" as used in "${context.slice(0, 40)}"`)
+});
@@ -0,0 +1,87 @@
+import { TTS_VOICES } from "../constants";
+import { AiProvider, ProviderConfig, JsonSchema, TextRequest, resolveModel, blobToBase64, DEFAULT_OPENAI_BASE_URL } from "./aiProvider";
+import { runRequest } from "./requestManager";
+import { hashText } from "./audioCache";
+
+// Same order as TTS_VOICES so a cast keeps distinct voices when switching providers.
+const OPENAI_VOICES = ['onyx', 'nova', 'echo', 'shimmer', 'fable', 'alloy', 'ash', 'coral'];
+const ANALYSIS_SAMPLE_RATE = 16000;
+
+const mapVoice = (voice: string) => {
+  if (OPENAI_VOICES.includes(voice)) return voice;
+  const index = TTS_VOICES.findIndex(v => v.name === voice);
+  return OPENAI_VOICES[Math.max(0, index) % OPENAI_VOICES.length];
+};
+
+const schemaInstruction = (schema: JsonSchema) => `Respond only with a JSON value matching this JSON Schema:\n${JSON.stringify(schema)}`;
+
+// Chat audio input only accepts wav or mp3, while MediaRecorder produces webm/ogg, so re-encode as 16 kHz mono WAV.
+const toWav = async (blob: Blob): Promise<Blob> => {
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+  const samples = decoded.getChannelData(0);
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, text: string) => { for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i)); };
+  writeString(0, 'RIFF'); view.setUint32(4, 36 + samples.length * 2, true); writeString(8, 'WAVE');
+  writeString(12, 'fmt '); view.setUint32(16, 16, true); view.setUint16(20, 1, true); view.setUint16(22, 1, true);
+  view.setUint32(24, decoded.sampleRate, true); view.setUint32(28, decoded.sampleRate * 2, true); view.setUint16(32, 2, true); view.setUint16(34, 16, true);
+  writeString(36, 'data'); view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, samples[i])) * 0x7fff, true);
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+export const createOpenAiProvider = (config: ProviderConfig): AiProvider => {
+  const baseUrl = (config.baseUrl?.trim() || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+  // The body is read inside the request task so a dropped stream is retried and the timeout covers the whole transfer.
+  const post = <T>(path: string, body: any, read: (response: Response) => Promise<T>, signal?: AbortSignal, dedupeKey?: string): Promise<T> => runRequest({
+    model: `openai/${body.model}`,
+    dedupeKey: `openai:${baseUrl}${path}:${dedupeKey ?? hashText(JSON.stringify(body))}`,
+    signal,
+    getUsage: (data: any) => data?.usage && { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+  }, async abortSignal => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }) },
+      body: JSON.stringify(body),
+      signal: abortSignal
+    });
+    if (response.status === 401 && !config.apiKey) throw new Error("MISSING_API_KEY");
+    if (!response.ok) throw Object.assign(new Error(`${response.status} ${(await response.text()).slice(0, 200)}`), { status: response.status });
+    return read(response);
+  });
+
+  const chat = async (model: string, { prompt, system, signal }: TextRequest, extra: Record<string, unknown> = {}, content?: unknown[], dedupeKey?: string): Promise<string> => {
+    const messages = [
+      ...(system ? [{ role: 'system', content: system }] : []),
+      { role: 'user', content: content || prompt }
+    ];
+    const data = await post('/chat/completions', { model, messages, ...extra }, response => response.json(), signal, dedupeKey);
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  return {
+    id: 'openai',
+
+    generateText: (request) => chat(resolveModel(config, 'text'), request),
+
+    generateJson: ({ prompt, system, schema, signal }) =>
+      chat(resolveModel(config, 'structured'), { prompt, system: [system, schemaInstruction(schema)].filter(Boolean).join('\n\n'), signal }, { response_format: { type: 'json_object' } }),
+
+    synthesizeSpeech: (text, voice, signal) =>
+      post('/audio/speech', { model: resolveModel(config, 'speech'), input: text, voice: mapVoice(voice), response_format: 'pcm' }, async response => new Uint8Array(await response.arrayBuffer()), signal),
+
+    async analyzeAudio({ prompt, system, schema, audio, signal }) {
+      const data = await blobToBase64(await toWav(audio));
+      return chat(
+        resolveModel(config, 'audio'),
+        { prompt, system: [system, schemaInstruction(schema)].filter(Boolean).join('\n\n'), signal },
+        { modalities: ['text'] },
+        [{ type: 'text', text: prompt }, { type: 'input_audio', input_audio: { data, format: 'wav' } }],
+        `${hashText(`${prompt}:${system}:${data}`)}:${data.length}`
+      );
+    },
+
+    defineWord: (word, context, signal) => chat(resolveModel(config, 'text'), { prompt: `Definition of "${word}" in context: "${context}". Max 15 words.`, signal })
+  };
+};
@@ -0,0 +1,143 @@
+import { Dialogue, PracticeEntry, PracticeActivity, ContentCategory } from "../types";
+import { STORAGE_KEYS } from "../constants";
+
+const MAX_ENTRIES = 2000;
+// Shorter listening bursts are usually a line replay or an accidental tap, not a session.
+export const MIN_LISTENING_MS = 5000;
+
+export interface DayActivity {
+  day: string; // local YYYY-MM-DD
+  minutes: number;
+  sessions: number;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  practisedToday: boolean;
+}
+
+export interface ScoreTrend {
+  dialogueId: string;
+  title: string;
+  points: { at: number; score: number; activity: PracticeActivity }[]; // oldest first
+}
+
+export interface CategoryTotal {
+  category: ContentCategory;
+  sessions: number;
+  minutes: number;
+  averageScore: number | null;
+}
+
+export const loadPracticeLog = (): PracticeEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.PRACTICE_LOG);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) { return []; }
+};
+
+export const savePracticeLog = (log: PracticeEntry[]) => {
+  localStorage.setItem(STORAGE_KEYS.PRACTICE_LOG, JSON.stringify(log.slice(-MAX_ENTRIES)));
+};
+
+export const logPractice = (dialogue: Dialogue, activity: PracticeActivity, startedAt: number, score?: number, now: number = Date.now()): PracticeEntry => {
+  const entry: PracticeEntry = {
+    id: `${now.toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    dialogueId: dialogue.id,
+    dialogueTitle: dialogue.title,
+    category: dialogue.category,
+    activity,
+    ...(score !== undefined && { score: Math.round(score) }),
+    startedAt,
+    durationMs: Math.max(0, now - startedAt)
+  };
+  savePracticeLog([...loadPracticeLog(), entry]);
+  return entry;
+};
+
+// Local calendar day, so a late-evening session counts for the day the learner experienced it.
+export const dayKey = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const startOfDay = (time: number) => {
+  const d = new Date(time);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Steps by calendar date rather than 24h so DST changes never skip or repeat a day.
+const shiftDay = (time: number, days: number) => {
+  const d = new Date(time);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+// A streak survives until the end of today, so it is still "alive" before today's session is done.
+export const getStreak = (log: PracticeEntry[], now: number = Date.now()): StreakSummary => {
+  const days = new Set(log.map(e => dayKey(e.startedAt)));
+  const practisedToday = days.has(dayKey(now));
+  let current = 0;
+  for (let t = practisedToday ? now : shiftDay(now, -1); days.has(dayKey(t)); t = shiftDay(t, -1)) current++;
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  [...days].sort().forEach(day => {
+    const time = new Date(`${day}T00:00:00`).getTime();
+    run = previous !== null && dayKey(shiftDay(previous, 1)) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = time;
+  });
+  return { current, longest: Math.max(longest, current), practisedToday };
+};
+
+// One entry per day for the last `weeks` whole weeks, starting on a Sunday so the heatmap columns line up.
+export const getDailyActivity = (log: PracticeEntry[], weeks: number, now: number = Date.now()): DayActivity[] => {
+  const totals: Record<string, DayActivity> = {};
+  log.forEach(e => {
+    const day = dayKey(e.startedAt);
+    const total = totals[day] ||= { day, minutes: 0, sessions: 0 };
+    total.minutes += e.durationMs / 60000;
+    total.sessions++;
+  });
+  const today = startOfDay(now);
+  const first = shiftDay(today, -(weeks - 1) * 7 - new Date(today).getDay());
+  const days: DayActivity[] = [];
+  for (let t = first; t <= today; t = shiftDay(t, 1)) {
+    const day = dayKey(t);
+    days.push(totals[day] || { day, minutes: 0, sessions: 0 });
+  }
+  return days;
+};
+
+export const getScoreTrends = (log: PracticeEntry[]): ScoreTrend[] => {
+  const byDialogue: Record<string, ScoreTrend> = {};
+  log.filter(e => e.score !== undefined).sort((a, b) => a.startedAt - b.startedAt).forEach(e => {
+    const trend = byDialogue[e.dialogueId] ||= { dialogueId: e.dialogueId, title: e.dialogueTitle, points: [] };
+    trend.title = e.dialogueTitle; // latest title wins after renames
+    trend.points.push({ at: e.startedAt, score: e.score!, activity: e.activity });
+  });
+  return Object.values(byDialogue).sort((a, b) => b.points[b.points.length - 1].at - a.points[a.points.length - 1].at);
+};
+
+export const getCategoryTotals = (log: PracticeEntry[]): CategoryTotal[] => {
+  const byCategory: Record<string, { sessions: number; ms: number; scoreSum: number; scored: number }> = {};
+  log.forEach(e => {
+    const total = byCategory[e.category] ||= { sessions: 0, ms: 0, scoreSum: 0, scored: 0 };
+    total.sessions++;
+    total.ms += e.durationMs;
+    if (e.score !== undefined) { total.scoreSum += e.score; total.scored++; }
+  });
+  return Object.entries(byCategory)
+    .map(([category, t]) => ({ category: category as ContentCategory, sessions: t.sessions, minutes: t.ms / 60000, averageScore: t.scored ? Math.round(t.scoreSum / t.scored) : null }))
+    .sort((a, b) => b.minutes - a.minutes);
+};
+
+export const getTotalMinutes = (log: PracticeEntry[], since: number = 0) =>
+  log.filter(e => e.startedAt >= since).reduce((sum, e) => sum + e.durationMs, 0) / 60000;
+
+// Start of the rolling seven-day window that ends today.
+export const getWeekStart = (now: number = Date.now()) => shiftDay(startOfDay(now), -6);
@@ -0,0 +1,266 @@
+import { ProsodyReport, ProsodyFinding } from "../types";
+
+// Everything here runs locally on decoded AudioBuffers so there is feedback even without the model.
+const ANALYSIS_RATE = 8000;
+const HOP_SECONDS = 0.02;
+const WINDOW_SECONDS = 0.04;
+const MIN_F0 = 75;
+const MAX_F0 = 400;
+const VOICING_THRESHOLD = 0.5;
+const MIN_PAUSE_SECONDS = 0.25;
+const MAX_DTW_FRAMES = 600;
+
+interface ProsodyFeatures {
+  pitch: Float32Array; // Hz, 0 when unvoiced
+  energy: Float32Array; // RMS
+  silent: Uint8Array;
+  speechSeconds: number;
+  syllableRate: number; // energy peaks per second of speech
+}
+
+const downsample = (data: Float32Array, fromRate: number): Float32Array => {
+  const ratio = fromRate / ANALYSIS_RATE;
+  if (ratio <= 1) return data;
+  const out = new Float32Array(Math.floor(data.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(data.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += data[j];
+    out[i] = sum / Math.max(1, end - start);
+  }
+  return out;
+};
+
+const percentile = (values: ArrayLike<number>, p: number): number => {
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  if (!sorted.length) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+// Normalised autocorrelation; returns 0 for frames without a clear period.
+const estimatePitch = (data: Float32Array, start: number, size: number): number => {
+  const minLag = Math.floor(ANALYSIS_RATE / MAX_F0);
+  const maxLag = Math.ceil(ANALYSIS_RATE / MIN_F0);
+  let best = 0;
+  let bestLag = 0;
+  for (let lag = minLag; lag <= maxLag && lag < size; lag++) {
+    let sum = 0; let e1 = 0; let e2 = 0;
+    for (let i = start; i < start + size - lag; i++) {
+      sum += data[i] * data[i + lag];
+      e1 += data[i] * data[i];
+      e2 += data[i + lag] * data[i + lag];
+    }
+    const r = e1 > 0 && e2 > 0 ? sum / Math.sqrt(e1 * e2) : 0;
+    if (r > best) { best = r; bestLag = lag; }
+  }
+  return best >= VOICING_THRESHOLD && bestLag > 0 ? ANALYSIS_RATE / bestLag : 0;
+};
+
+const medianFilter = (values: Float32Array, radius: number): Float32Array => {
+  const out = new Float32Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] === 0) continue;
+    const window: number[] = [];
+    for (let j = Math.max(0, i - radius); j <= Math.min(values.length - 1, i + radius); j++) if (values[j] > 0) window.push(values[j]);
+    window.sort((a, b) => a - b);
+    out[i] = window[Math.floor(window.length / 2)];
+  }
+  return out;
+};
+
+const pitchTrack = (data: Float32Array): Float32Array => {
+  const hop = Math.round(HOP_SECONDS * ANALYSIS_RATE);
+  const size = Math.round(WINDOW_SECONDS * ANALYSIS_RATE);
+  const frames = Math.max(0, Math.floor((data.length - size) / hop) + 1);
+  const pitch = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) pitch[f] = estimatePitch(data, f * hop, size);
+  return medianFilter(pitch, 2);
+};
+
+export const extractPitchContour = (buffer: AudioBuffer): { pitch: Float32Array; frameSeconds: number } => ({
+  pitch: pitchTrack(downsample(buffer.getChannelData(0), buffer.sampleRate)),
+  frameSeconds: HOP_SECONDS
+});
+
+// Single-window pitch for live input (e.g. an AnalyserNode's time-domain buffer).
+export const estimateFramePitch = (samples: Float32Array, sampleRate: number): number => {
+  const data = downsample(samples, sampleRate);
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+  if (Math.sqrt(sum / Math.max(1, data.length)) < 0.01) return 0;
+  return estimatePitch(data, 0, data.length);
+};
+
+const extractFeatures = (buffer: AudioBuffer): ProsodyFeatures => {
+  const data = downsample(buffer.getChannelData(0), buffer.sampleRate);
+  const hop = Math.round(HOP_SECONDS * ANALYSIS_RATE);
+  const size = Math.round(WINDOW_SECONDS * ANALYSIS_RATE);
+  const frames = Math.max(0, Math.floor((data.length - size) / hop) + 1);
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * hop; i < f * hop + size; i++) sum += data[i] * data[i];
+    energy[f] = Math.sqrt(sum / size);
+  }
+  const pitch = pitchTrack(data);
+  const silenceLevel = Math.max(1e-4, percentile(energy, 0.95) * 0.1);
+  const silent = new Uint8Array(frames);
+  let speechFrames = 0;
+  for (let f = 0; f < frames; f++) {
+    silent[f] = energy[f] < silenceLevel ? 1 : 0;
+    if (!silent[f]) speechFrames++;
+    else pitch[f] = 0;
+  }
+  // Syllable nuclei approximated by local energy peaks at least 100ms apart.
+  let peaks = 0; let lastPeak = -Infinity;
+  for (let f = 2; f < frames - 2; f++) {
+    const e = energy[f];
+    if (e > silenceLevel * 1.5 && e >= energy[f - 1] && e >= energy[f + 1] && e > energy[f - 2] && e > energy[f + 2] && f - lastPeak >= 5) { peaks++; lastPeak = f; }
+  }
+  const speechSeconds = speechFrames * HOP_SECONDS;
+  return { pitch, energy, silent, speechSeconds, syllableRate: speechSeconds > 0 ? peaks / speechSeconds : 0 };
+};
+
+export const toSemitones = (pitch: Float32Array): (number | null)[] => {
+  const voiced = Array.from(pitch).filter(p => p > 0);
+  const median = percentile(voiced, 0.5) || 1;
+  return Array.from(pitch, p => p > 0 ? 12 * Math.log2(p / median) : null);
+};
+
+const zScore = (values: number[]): number[] => {
+  const mean = values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+  const sd = Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, values.length)) || 1;
+  return values.map(v => (v - mean) / sd);
+};
+
+// Averages frames down to at most `max` so DTW stays cheap on long recordings.
+const decimate = <T extends number | null>(values: T[], max: number): T[] => {
+  if (values.length <= max) return values;
+  const ratio = values.length / max;
+  return Array.from({ length: max }, (_, i) => {
+    const slice = values.slice(Math.floor(i * ratio), Math.floor((i + 1) * ratio)).filter((v): v is NonNullable<T> => v !== null) as number[];
+    return (slice.length ? slice.reduce((a, b) => a + b, 0) / slice.length : null) as T;
+  });
+};
+
+// Classic DTW on the energy envelope plus voicing; returns the warping path as [refIndex, userIndex] pairs.
+const dtwPath = (ref: number[][], user: number[][]): [number, number][] => {
+  const n = ref.length; const m = user.length;
+  const cost = new Float32Array((n + 1) * (m + 1)).fill(Infinity);
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  cost[at(0, 0)] = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const d = ref[i - 1].reduce((sum, v, k) => sum + Math.abs(v - user[j - 1][k]), 0);
+      cost[at(i, j)] = d + Math.min(cost[at(i - 1, j)], cost[at(i, j - 1)], cost[at(i - 1, j - 1)]);
+    }
+  }
+  const path: [number, number][] = [];
+  let i = n; let j = m;
+  while (i > 0 && j > 0) {
+    path.push([i - 1, j - 1]);
+    const diag = cost[at(i - 1, j - 1)]; const up = cost[at(i - 1, j)]; const left = cost[at(i, j - 1)];
+    if (diag <= up && diag <= left) { i--; j--; } else if (up < left) i--; else j--;
+  }
+  return path.reverse();
+};
+
+const pearson = (pairs: [number, number][]): number => {
+  if (pairs.length < 3) return 0;
+  const mx = pairs.reduce((a, [x]) => a + x, 0) / pairs.length;
+  const my = pairs.reduce((a, [, y]) => a + y, 0) / pairs.length;
+  let num = 0; let dx = 0; let dy = 0;
+  pairs.forEach(([x, y]) => { num += (x - mx) * (y - my); dx += (x - mx) ** 2; dy += (y - my) ** 2; });
+  return dx > 0 && dy > 0 ? num / Math.sqrt(dx * dy) : 0;
+};
+
+const pauseRuns = (silent: number[], frameSeconds: number): [number, number][] => {
+  const first = silent.findIndex(s => s < 0.5);
+  let last = -1;
+  for (let k = silent.length - 1; k >= 0; k--) if (silent[k] < 0.5) { last = k; break; }
+  const runs: [number, number][] = [];
+  let start = -1;
+  for (let k = Math.max(0, first); k <= last; k++) {
+    if (silent[k] >= 0.5 && start < 0) start = k;
+    if (silent[k] < 0.5 && start >= 0) {
+      if ((k - start) * frameSeconds >= MIN_PAUSE_SECONDS) runs.push([start, k - 1]);
+      start = -1;
+    }
+  }
+  return runs;
+};
+
+export const compareProsody = (reference: AudioBuffer, user: AudioBuffer): ProsodyReport => {
+  const ref = extractFeatures(reference);
+  const usr = extractFeatures(user);
+
+  const refSt = decimate(toSemitones(ref.pitch), MAX_DTW_FRAMES);
+  const usrSt = decimate(toSemitones(usr.pitch), MAX_DTW_FRAMES);
+  const refEnergy = zScore(decimate(Array.from(ref.energy, e => Math.log(e + 1e-4)), MAX_DTW_FRAMES));
+  const usrEnergy = zScore(decimate(Array.from(usr.energy, e => Math.log(e + 1e-4)), MAX_DTW_FRAMES));
+  const refSilent = decimate(Array.from(ref.silent, Number), MAX_DTW_FRAMES);
+  const usrSilent = decimate(Array.from(usr.silent, Number), MAX_DTW_FRAMES);
+  const refFrameSeconds = reference.duration / Math.max(1, refSt.length);
+  const usrFrameSeconds = user.duration / Math.max(1, usrSt.length);
+
+  const path = dtwPath(
+    refEnergy.map((e, i) => [e, refSt[i] === null ? 0 : 1]),
+    usrEnergy.map((e, i) => [e, usrSt[i] === null ? 0 : 1])
+  );
+
+  // Warp the user's contour onto the reference time axis.
+  const alignedUser: (number | null)[] = refSt.map(() => null);
+  const buckets: number[][] = refSt.map(() => []);
+  const userForRef: number[][] = refSt.map(() => []);
+  const refForUser: number[][] = usrSt.map(() => []);
+  path.forEach(([i, j]) => {
+    userForRef[i].push(j); refForUser[j].push(i);
+    const u = usrSt[j]; if (u !== null) buckets[i].push(u);
+  });
+  buckets.forEach((b, i) => { if (b.length) alignedUser[i] = b.reduce((a, c) => a + c, 0) / b.length; });
+
+  const pitchPairs: [number, number][] = [];
+  refSt.forEach((r, i) => { const u = alignedUser[i]; if (r !== null && u !== null) pitchPairs.push([r, u]); });
+  const energyPairs: [number, number][] = path.map(([i, j]) => [refEnergy[i], usrEnergy[j]]);
+
+  const intonationScore = Math.round(Math.max(0, pearson(pitchPairs)) * 100);
+  const stressScore = Math.round(Math.max(0, pearson(energyPairs)) * 100);
+  const span = (st: (number | null)[]) => {
+    const voiced = st.filter((v): v is number => v !== null);
+    return voiced.length ? percentile(voiced, 0.9) - percentile(voiced, 0.1) : 0;
+  };
+  const pitchRange = { reference: span(refSt), user: span(usrSt) };
+
+  const refPauses = pauseRuns(refSilent, refFrameSeconds);
+  const usrPauses = pauseRuns(usrSilent, usrFrameSeconds);
+  const mostlySilent = (indices: number[], silent: number[]) => indices.length > 0 && indices.filter(k => silent[k] >= 0.5).length / indices.length > 0.5;
+  const missing = refPauses
+    .filter(([a, b]) => !mostlySilent(userForRef.slice(a, b + 1).flat(), usrSilent))
+    .map(([a]) => a * refFrameSeconds);
+  const extra = usrPauses
+    .filter(([a, b]) => !mostlySilent(refForUser.slice(a, b + 1).flat(), refSilent))
+    .map(([a, b]) => (refForUser[a][0] ?? refForUser[b][0] ?? 0) * refFrameSeconds);
+
+  const paceRatio = ref.speechSeconds > 0 ? usr.speechSeconds / ref.speechSeconds : 1;
+
+  const findings: ProsodyFinding[] = [];
+  if (intonationScore < 50) findings.push({ code: 'flatMelody' });
+  else if (intonationScore >= 80) findings.push({ code: 'goodMelody' });
+  if (pitchRange.user < pitchRange.reference * 0.6) findings.push({ code: 'narrowRange', values: { user: +pitchRange.user.toFixed(1), reference: +pitchRange.reference.toFixed(1) } });
+  if (paceRatio > 1.25) findings.push({ code: 'tooSlow', values: { percent: Math.round((paceRatio - 1) * 100) } });
+  else if (paceRatio < 0.8) findings.push({ code: 'tooFast', values: { percent: Math.round((1 - paceRatio) * 100) } });
+  if (missing.length) findings.push({ code: 'missingPauses', values: { count: missing.length } });
+  if (extra.length) findings.push({ code: 'extraPauses', values: { count: extra.length } });
+  if (stressScore < 40) findings.push({ code: 'offStress' });
+
+  return {
+    intonationScore,
+    stressScore,
+    pitchRange,
+    pace: { ratio: paceRatio, referenceRate: ref.syllableRate, userRate: usr.syllableRate },
+    pauses: { missing, extra },
+    findings,
+    contour: { reference: refSt, user: alignedUser, frameSeconds: refFrameSeconds }
+  };
+};
@@ -0,0 +1,66 @@
+import { DialogueLine, LineTiming } from "../types";
+import { countWords } from "./transcriptParser";
+
+const FRAME_SECONDS = 0.02;
+const MIN_PAUSE_SECONDS = 0.15;
+const SNAP_WINDOW_SECONDS = 1.5;
+
+// Midpoints of stretches quieter than a fraction of the loud frames; real speech pauses between lines show up here.
+export const findPauses = (buffer: AudioBuffer): number[] => {
+  const data = buffer.getChannelData(0);
+  const hop = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const energy: number[] = [];
+  for (let i = 0; i + hop <= data.length; i += hop) {
+    let sum = 0;
+    for (let j = i; j < i + hop; j++) sum += data[j] * data[j];
+    energy.push(Math.sqrt(sum / hop));
+  }
+  const sorted = [...energy].sort((a, b) => a - b);
+  const threshold = (sorted[Math.floor(sorted.length * 0.9)] || 0) * 0.1;
+  const pauses: number[] = [];
+  let runStart = -1;
+  energy.forEach((e, i) => {
+    if (e < threshold) { if (runStart < 0) runStart = i; return; }
+    if (runStart >= 0 && (i - runStart) * FRAME_SECONDS >= MIN_PAUSE_SECONDS) pauses.push(((runStart + i) / 2) * FRAME_SECONDS);
+    runStart = -1;
+  });
+  return pauses;
+};
+
+// Splits the recording in proportion to each line's word count, then snaps every boundary to the nearest pause.
+export const autoAlign = (lines: DialogueLine[], buffer: AudioBuffer): LineTiming[] => {
+  const duration = buffer.duration;
+  const pauses = findPauses(buffer);
+  const weights = lines.map(l => Math.max(1, countWords(l.text)));
+  const total = weights.reduce((a, b) => a + b, 0);
+  const boundaries = [0];
+  let acc = 0;
+  weights.slice(0, -1).forEach(w => {
+    acc += w;
+    const estimate = (acc / total) * duration;
+    const previous = boundaries[boundaries.length - 1];
+    const nearest = pauses
+      .filter(p => p > previous && Math.abs(p - estimate) <= SNAP_WINDOW_SECONDS)
+      .sort((a, b) => Math.abs(a - estimate) - Math.abs(b - estimate))[0];
+    boundaries.push(nearest ?? Math.max(previous, estimate));
+  });
+  boundaries.push(duration);
+  return lines.map((_, i) => ({ start: boundaries[i], end: boundaries[i + 1] }));
+};
+
+// Lines the user has not aligned yet fill the gap between their aligned neighbours.
+export const getRecordingTimings = (lines: DialogueLine[], duration: number): LineTiming[] => {
+  const timings: (LineTiming | null)[] = lines.map(l => l.cue && l.cue.end > l.cue.start ? { start: Math.min(l.cue.start, duration), end: Math.min(l.cue.end, duration) } : null);
+  let i = 0;
+  while (i < timings.length) {
+    if (timings[i]) { i++; continue; }
+    let j = i;
+    while (j < timings.length && !timings[j]) j++;
+    const from = i > 0 ? timings[i - 1]!.end : 0;
+    const to = j < timings.length ? timings[j]!.start : duration;
+    const step = Math.max(0, to - from) / (j - i);
+    for (let k = i; k < j; k++) timings[k] = { start: from + (k - i) * step, end: from + (k - i + 1) * step };
+    i = j;
+  }
+  return timings as LineTiming[];
+};
@@ -0,0 +1,143 @@
+import { STORAGE_KEYS } from "../constants";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelUsage extends TokenUsage {
+  calls: number;
+  failures: number;
+  lastUsedAt: number;
+}
+
+export type UsageLedger = Record<string, ModelUsage>; // keyed by "provider/model"
+
+export interface RequestOptions<T> {
+  model: string; // ledger key, e.g. "gemini/gemini-3-pro-preview"
+  dedupeKey?: string; // identical keys share one in-flight request
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+  getUsage?: (result: T) => TokenUsage | undefined;
+}
+
+// Raised by the request layer itself; HTTP and SDK errors pass through with their own types.
+export class RequestTimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`The request timed out after ${Math.round(timeoutMs / 1000)}s.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+
+export const isAbortError = (error: unknown) => (error as any)?.name === 'AbortError';
+
+const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+// Rate limits, server errors, dropped connections and timeouts are worth another try; anything else is final.
+const isRetryable = (error: any) => {
+  if (error instanceof RequestTimeoutError) return true;
+  if (error instanceof TypeError) return true; // fetch network failure
+  const status = error?.status ?? error?.code ?? Number(String(error?.message || '').match(/\b(429|5\d\d)\b/)?.[1]);
+  return status === 429 || (status >= 500 && status < 600);
+};
+
+// Full jitter so clients that failed together don't retry together.
+const backoffDelay = (attempt: number) => Math.random() * BASE_DELAY_MS * 2 ** attempt;
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) { reject(abortError()); return; }
+  const timer = setTimeout(() => { signal.removeEventListener('abort', onAbort); resolve(); }, ms);
+  const onAbort = () => { clearTimeout(timer); reject(abortError()); };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+export const loadUsageLedger = (): UsageLedger => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.USAGE_LEDGER);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) { return {}; }
+};
+
+export const clearUsageLedger = () => localStorage.removeItem(STORAGE_KEYS.USAGE_LEDGER);
+
+const recordUsage = (model: string, ok: boolean, usage?: TokenUsage) => {
+  const ledger = loadUsageLedger();
+  const entry = ledger[model] || { calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, lastUsedAt: 0 };
+  ledger[model] = {
+    calls: entry.calls + 1,
+    failures: entry.failures + (ok ? 0 : 1),
+    inputTokens: entry.inputTokens + (usage?.inputTokens || 0),
+    outputTokens: entry.outputTokens + (usage?.outputTokens || 0),
+    lastUsedAt: Date.now()
+  };
+  try { localStorage.setItem(STORAGE_KEYS.USAGE_LEDGER, JSON.stringify(ledger)); } catch (e) {}
+};
+
+const attempt = <T>(task: (signal: AbortSignal) => Promise<T>, parent: AbortSignal, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+  const onAbort = () => controller.abort();
+  parent.addEventListener('abort', onAbort, { once: true });
+  return task(controller.signal)
+    .catch(error => { throw timedOut ? new RequestTimeoutError(timeoutMs) : parent.aborted ? abortError() : error; })
+    .finally(() => { clearTimeout(timer); parent.removeEventListener('abort', onAbort); });
+};
+
+const execute = async <T>(task: (signal: AbortSignal) => Promise<T>, options: RequestOptions<T>, signal: AbortSignal): Promise<T> => {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  for (let i = 0; ; i++) {
+    try {
+      const result = await attempt(task, signal, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      recordUsage(options.model, true, options.getUsage?.(result));
+      return result;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      recordUsage(options.model, false);
+      if (i >= retries || !isRetryable(error)) throw error;
+      await sleep(backoffDelay(i), signal);
+    }
+  }
+};
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const inFlight = new Map<string, InFlight>();
+
+// Each caller can cancel independently; the shared request is only aborted once every caller has gone.
+const subscribe = <T>(entry: InFlight, signal?: AbortSignal): Promise<T> => {
+  entry.subscribers++;
+  if (!signal) return entry.promise as Promise<T>;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      if (--entry.subscribers === 0) entry.controller.abort();
+      reject(abortError());
+    };
+    if (signal.aborted) { onAbort(); return; }
+    signal.addEventListener('abort', onAbort, { once: true });
+    (entry.promise as Promise<T>).then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+export const runRequest = <T>(options: RequestOptions<T>, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const key = options.dedupeKey;
+  const existing = key ? inFlight.get(key) : undefined;
+  if (existing) return subscribe<T>(existing, options.signal);
+
+  const controller = new AbortController();
+  const entry: InFlight = { controller, subscribers: 0, promise: Promise.resolve() };
+  entry.promise = execute(task, options, controller.signal).finally(() => { if (key) inFlight.delete(key); });
+  // Keep the shared promise from surfacing as unhandled when every subscriber has already gone.
+  entry.promise.catch(() => {});
+  if (key) inFlight.set(key, entry);
+  return subscribe<T>(entry, options.signal);
+};
@@ -0,0 +1,136 @@
+import { DialogueLine, FeedbackResult, LineFeedback, WordPronunciation, PhonemeIssue } from "../types";
+
+export type ModelResponseProblem = 'parse' | 'shape' | 'empty';
+
+// Thrown when a model reply cannot be turned into the expected shape, even after the repair retry.
+export class ModelResponseError extends Error {
+  constructor(public problem: ModelResponseProblem, public details: string[], public raw: string = '') {
+    super(problem === 'parse' ? 'The AI reply was not valid JSON.' : problem === 'empty' ? 'The AI returned an empty reply.' : `The AI reply was incomplete: ${details.slice(0, 3).join('; ')}`);
+    this.name = 'ModelResponseError';
+  }
+}
+
+export type Validator<T> = (value: unknown) => T;
+
+export interface DialogueDraft {
+  title: string;
+  scenario: string;
+  lines: DialogueLine[];
+}
+
+const MAX_TIPS = 3;
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const asString = (v: unknown): string => typeof v === 'string' ? v.trim() : typeof v === 'number' ? String(v) : '';
+const asNumber = (v: unknown): number | null => {
+  const n = typeof v === 'string' ? parseFloat(v) : v;
+  return typeof n === 'number' && isFinite(n) ? n : null;
+};
+// Some models answer on another scale despite the prompt. Explicit ratios ("7/10", "0.8/1") are rescaled and
+// anything below 1 is treated as a fraction; a bare 1-10 is ambiguous (7 could be 7%) and is kept as a percentage.
+const asScore = (v: unknown): number | null => {
+  const ratio = typeof v === 'string' ? v.match(/^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*$/) : null;
+  if (ratio && parseFloat(ratio[2]) > 0) return Math.round(Math.max(0, Math.min(100, (parseFloat(ratio[1]) / parseFloat(ratio[2])) * 100)));
+  const n = asNumber(v);
+  if (n === null) return null;
+  return Math.round(Math.max(0, Math.min(100, n > 0 && n < 1 ? n * 100 : n)));
+};
+const asIndex = (v: unknown, limit: number): number | null => {
+  const n = asNumber(v);
+  return n !== null && Number.isInteger(n) && n >= 0 && n < limit ? n : null;
+};
+
+// Accepts fenced or chatty replies by falling back to the outermost JSON object or array in the text.
+export const parseModelJson = (raw: string): unknown => {
+  const text = (raw || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!text) throw new ModelResponseError('empty', [], raw);
+  try { return JSON.parse(text); } catch (e) {}
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start >= 0 && end > start) {
+    try { return JSON.parse(text.slice(start, end + 1)); } catch (e) {}
+  }
+  throw new ModelResponseError('parse', ['reply is not valid JSON'], raw);
+};
+
+export const validateDialogueDraft: Validator<DialogueDraft> = (value) => {
+  if (!isObject(value)) throw new ModelResponseError('shape', ['expected a JSON object']);
+  const lines = (Array.isArray(value.lines) ? value.lines : [])
+    .filter(isObject)
+    .map(l => ({ speaker: asString(l.speaker) || 'Narrator', text: asString(l.text) }))
+    .filter(l => l.text);
+  const errors: string[] = [];
+  if (lines.length === 0) errors.push('lines must contain at least one {speaker, text} entry');
+  if (!asString(value.title)) errors.push('title is missing');
+  if (errors.length) throw new ModelResponseError('shape', errors);
+  return { title: asString(value.title), scenario: asString(value.scenario), lines };
+};
+
+const validatePhonemes = (value: unknown): PhonemeIssue[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(isObject)
+    .map(p => ({ expected: asString(p.expected), heard: asString(p.heard), note: asString(p.note) }))
+    .filter(p => p.expected);
+
+// Line and word entries that point outside the dialogue are dropped rather than failing the whole analysis.
+export const createFeedbackValidator = (lines: DialogueLine[]): Validator<FeedbackResult> => (value) => {
+  if (!isObject(value)) throw new ModelResponseError('shape', ['expected a JSON object']);
+  const score = asScore(value.score);
+  if (score === null) throw new ModelResponseError('shape', ['score must be a number from 0 to 100']);
+
+  const seenLines = new Set<number>();
+  const lineFeedback: LineFeedback[] = [];
+  (Array.isArray(value.lines) ? value.lines : []).filter(isObject).forEach(l => {
+    const lineIndex = asIndex(l.lineIndex, lines.length);
+    const lineScore = asScore(l.score);
+    if (lineIndex === null || lineScore === null || seenLines.has(lineIndex)) return;
+    seenLines.add(lineIndex);
+    lineFeedback.push({
+      lineIndex,
+      score: lineScore,
+      transcription: asString(l.transcription),
+      mispronouncedWords: (Array.isArray(l.mispronouncedWords) ? l.mispronouncedWords : []).map(asString).filter(Boolean)
+    });
+  });
+
+  const words: WordPronunciation[] = [];
+  (Array.isArray(value.words) ? value.words : []).filter(isObject).forEach(w => {
+    const lineIndex = asIndex(w.lineIndex, lines.length);
+    if (lineIndex === null) return;
+    const wordIndex = asIndex(w.wordIndex, lines[lineIndex].text.split(/\s+/).filter(Boolean).length);
+    const wordScore = asScore(w.score);
+    if (wordIndex === null || wordScore === null) return;
+    words.push({ lineIndex, wordIndex, expected: asString(w.expected), heard: asString(w.heard), score: wordScore, phonemes: validatePhonemes(w.phonemes) });
+  });
+
+  return {
+    score,
+    transcription: asString(value.transcription),
+    pronunciationAnalysis: asString(value.pronunciationAnalysis),
+    intonationAnalysis: asString(value.intonationAnalysis),
+    tips: (Array.isArray(value.tips) ? value.tips : []).map(asString).filter(Boolean).slice(0, MAX_TIPS),
+    lines: lineFeedback.sort((a, b) => a.lineIndex - b.lineIndex),
+    words
+  };
+};
+
+// Lines the model skipped come back empty so the rest are still usable; a reply with no usable line fails.
+export const createTranslationValidator = (lineCount: number): Validator<string[]> => (value) => {
+  if (!isObject(value)) throw new ModelResponseError('shape', ['expected a JSON object']);
+  const translations: string[] = Array.from({ length: lineCount }, () => '');
+  (Array.isArray(value.lines) ? value.lines : []).filter(isObject).forEach(l => {
+    const lineIndex = asIndex(l.lineIndex, lineCount);
+    if (lineIndex !== null && !translations[lineIndex]) translations[lineIndex] = asString(l.translation);
+  });
+  if (!translations.some(Boolean)) throw new ModelResponseError('shape', ['lines must contain {lineIndex, translation} entries']);
+  return translations;
+};
+
+export const validateDefinition = (raw: string): string => {
+  const text = asString(raw).replace(/^["'*\s]+|["'*\s]+$/g, '');
+  if (!text) throw new ModelResponseError('empty', [], raw);
+  return text;
+};
+
+export const buildRepairPrompt = (error: ModelResponseError, raw: string) =>
+  `Your previous reply could not be used (${error.details.join('; ') || error.message}).\nPrevious reply:\n${raw.slice(0, 2000)}\n\nReply again with ONLY the corrected JSON, no commentary or markdown.`;
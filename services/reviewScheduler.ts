@@ -0,0 +1,103 @@
+import { DialogueReview, ReviewState } from "../types";
+import { STORAGE_KEYS } from "../constants";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+type ReviewSchedule = Record<string, DialogueReview>;
+
+const newReviewState = (now: number): ReviewState => ({
+  easeFactor: 2.5, interval: 0, repetitions: 0, dueAt: now, lastScore: 0, lastReviewedAt: 0
+});
+
+const endOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+export const loadReviewSchedule = (): ReviewSchedule => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.REVIEW_SCHEDULE);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) { return {}; }
+};
+
+const saveReviewSchedule = (schedule: ReviewSchedule) => {
+  localStorage.setItem(STORAGE_KEYS.REVIEW_SCHEDULE, JSON.stringify(schedule));
+};
+
+// Maps a 0-100 accuracy score onto the SM-2 0-5 recall grade.
+export const scoreToQuality = (score: number): number => {
+  if (score >= 95) return 5;
+  if (score >= 85) return 4;
+  if (score >= 70) return 3;
+  if (score >= 50) return 2;
+  if (score >= 25) return 1;
+  return 0;
+};
+
+export const applySm2 = (state: ReviewState, score: number, now: number = Date.now()): ReviewState => {
+  const quality = scoreToQuality(score);
+  // Reviewing before the item is due only counts against it: a pass keeps the current schedule.
+  if (state.repetitions > 0 && now < state.dueAt && quality >= 3) {
+    return { ...state, lastScore: score, lastReviewedAt: now };
+  }
+  const easeFactor = Math.max(MIN_EASE, state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  let repetitions: number;
+  let interval: number;
+  if (quality < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = state.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.interval * easeFactor);
+  }
+  return { easeFactor, interval, repetitions, dueAt: now + interval * DAY_MS, lastScore: score, lastReviewedAt: now };
+};
+
+export const recordReview = (dialogueId: string, score: number, lineScores?: number[], now: number = Date.now()): DialogueReview => {
+  const schedule = loadReviewSchedule();
+  const existing = schedule[dialogueId] || { ...newReviewState(now), dialogueId, lines: {} };
+  const lines = { ...existing.lines };
+  lineScores?.forEach((lineScore, i) => { lines[i] = applySm2(lines[i] || newReviewState(now), lineScore, now); });
+  const updated: DialogueReview = { ...applySm2(existing, score, now), dialogueId, lines };
+  schedule[dialogueId] = updated;
+  saveReviewSchedule(schedule);
+  return updated;
+};
+
+// Line states are keyed by position, so an edit that moves, inserts or deletes lines carries each state
+// to the line's new index. origins[i] is the old index of new line i, or null for a line that is new.
+export const remapReviewLines = (dialogueId: string, origins: (number | null)[]) => {
+  const schedule = loadReviewSchedule();
+  const review = schedule[dialogueId];
+  if (!review) return;
+  const lines: Record<number, ReviewState> = {};
+  origins.forEach((origin, i) => { if (origin !== null && review.lines[origin]) lines[i] = review.lines[origin]; });
+  schedule[dialogueId] = { ...review, lines };
+  saveReviewSchedule(schedule);
+};
+
+export const removeReview = (dialogueId: string) => {
+  const schedule = loadReviewSchedule();
+  if (!schedule[dialogueId]) return;
+  delete schedule[dialogueId];
+  saveReviewSchedule(schedule);
+};
+
+export const isDueToday = (review: ReviewState, now: number = Date.now()) => review.dueAt <= endOfDay(now);
+
+// Dialogues whose own schedule or any line's schedule falls on or before today, most overdue first.
+export const getDueReviews = (now: number = Date.now()): DialogueReview[] => {
+  const schedule = loadReviewSchedule();
+  const effectiveDue = (r: DialogueReview) => Math.min(r.dueAt, ...Object.values(r.lines).map(l => l.dueAt));
+  return Object.values(schedule)
+    .filter(r => effectiveDue(r) <= endOfDay(now))
+    .sort((a, b) => effectiveDue(a) - effectiveDue(b));
+};
+
+export const getDueLineIndices = (review: DialogueReview | undefined, now: number = Date.now()): number[] => {
+  if (!review) return [];
+  return Object.entries(review.lines).filter(([, l]) => isDueToday(l, now)).map(([i]) => Number(i));
+};
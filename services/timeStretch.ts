@@ -0,0 +1,137 @@
+// WSOLA (waveform-similarity overlap-add) time stretching: changes speed without changing pitch.
+// Runs offline on a decoded buffer, normally in a worker; the result is played at playbackRate 1.
+
+export interface StretchRequest {
+  id: number;
+  channels: Float32Array[];
+  sampleRate: number;
+  rate: number;
+}
+
+export interface StretchReply {
+  id: number;
+  channels: Float32Array[];
+}
+
+const FRAME_SECONDS = 0.04;
+const SEARCH_SECONDS = 0.008;
+// The similarity search only needs the rough waveform shape, so it skips samples to stay fast.
+const SEARCH_STRIDE = 2;
+const CORRELATION_STRIDE = 4;
+
+const hannWindow = (length: number) => {
+  const taper = new Float32Array(length);
+  for (let i = 0; i < length; i++) taper[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / length);
+  return taper;
+};
+
+// Alignment is decided on a mono mix so every channel is cut at the same points.
+const mixDown = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+  const mix = new Float32Array(channels[0].length);
+  for (const data of channels) {
+    for (let i = 0; i < mix.length; i++) mix[i] += data[i] / channels.length;
+  }
+  return mix;
+};
+
+// Picks the frame start near `nominal` whose opening best continues the audio that followed the previous frame.
+const bestOffset = (signal: Float32Array, nominal: number, natural: number, overlap: number, search: number, maxStart: number) => {
+  let best = Math.max(0, Math.min(maxStart, nominal));
+  let bestScore = -Infinity;
+  for (let offset = -search; offset <= search; offset += SEARCH_STRIDE) {
+    const start = nominal + offset;
+    if (start < 0 || start > maxStart) continue;
+    let score = 0;
+    for (let i = 0; i < overlap; i += CORRELATION_STRIDE) score += signal[start + i] * signal[natural + i];
+    if (score > bestScore) { bestScore = score; best = start; }
+  }
+  return best;
+};
+
+// rate < 1 slows down (the result is longer), rate > 1 speeds up. Works on raw channel data so it can run in a worker.
+export const stretchChannels = (inputs: Float32Array[], sampleRate: number, rate: number): Float32Array[] => {
+  const length = inputs[0]?.length || 0;
+  const frame = Math.max(64, Math.round(sampleRate * FRAME_SECONDS / 2) * 2);
+  const synthesisHop = frame / 2;
+  const analysisHop = synthesisHop * rate;
+  const search = Math.round(sampleRate * SEARCH_SECONDS);
+  const outputLength = Math.max(1, Math.ceil(length / rate));
+  const outputs = inputs.map(() => new Float32Array(outputLength));
+  if (length < frame) return outputs;
+
+  const taper = hannWindow(frame);
+  const signal = mixDown(inputs);
+  const maxStart = length - frame;
+  const weights = new Float32Array(outputLength);
+
+  let previous = 0;
+  for (let k = 0; k * synthesisHop < outputLength; k++) {
+    const nominal = Math.round(k * analysisHop);
+    const natural = Math.min(maxStart, previous + synthesisHop);
+    const start = k === 0 ? 0 : bestOffset(signal, Math.min(nominal, maxStart), natural, synthesisHop, search, maxStart);
+    const at = k * synthesisHop;
+    const span = Math.min(frame, outputLength - at);
+    for (let c = 0; c < inputs.length; c++) {
+      const input = inputs[c];
+      const out = outputs[c];
+      for (let i = 0; i < span; i++) out[at + i] += input[start + i] * taper[i];
+    }
+    for (let i = 0; i < span; i++) weights[at + i] += taper[i];
+    previous = start;
+  }
+
+  // Dividing by the summed window undoes the fade at the edges, where fewer frames overlap.
+  for (let c = 0; c < outputs.length; c++) {
+    const out = outputs[c];
+    for (let i = 0; i < outputLength; i++) if (weights[i] > 1e-3) out[i] /= weights[i];
+  }
+  return outputs;
+};
+
+const toAudioBuffer = (channels: Float32Array[], sampleRate: number, context: BaseAudioContext): AudioBuffer => {
+  const buffer = context.createBuffer(channels.length, channels[0].length, sampleRate);
+  channels.forEach((data, c) => buffer.getChannelData(c).set(data));
+  return buffer;
+};
+
+// Sample rate and channel count are kept.
+export const timeStretch = (buffer: AudioBuffer, rate: number, context: BaseAudioContext): AudioBuffer => {
+  const inputs = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  return toAudioBuffer(stretchChannels(inputs, buffer.sampleRate, rate), buffer.sampleRate, context);
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, (channels: Float32Array[] | null) => void>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('./timeStretch.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<StretchReply>) => { pending.get(e.data.id)?.(e.data.channels); pending.delete(e.data.id); };
+    // A broken worker is given up on for the session; whatever was waiting renders on the main thread instead.
+    worker.onerror = () => {
+      workerFailed = true;
+      worker?.terminate(); worker = null;
+      pending.forEach(resolve => resolve(null)); pending.clear();
+    };
+  } catch (e) { workerFailed = true; }
+  return worker;
+};
+
+// A multi-minute recording takes seconds to stretch, so the render runs in a worker and the UI stays responsive.
+export const renderTimeStretch = async (buffer: AudioBuffer, rate: number, context: BaseAudioContext): Promise<AudioBuffer> => {
+  const target = getWorker();
+  if (!target) return timeStretch(buffer, rate, context);
+  const channels = await new Promise<Float32Array[] | null>(resolve => {
+    const id = nextRequestId++;
+    pending.set(id, resolve);
+    // Copies are transferred so the decoded original stays usable on this side.
+    const inputs = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+    const request: StretchRequest = { id, channels: inputs, sampleRate: buffer.sampleRate, rate };
+    target.postMessage(request, inputs.map(c => c.buffer));
+  });
+  return channels ? toAudioBuffer(channels, buffer.sampleRate, context) : timeStretch(buffer, rate, context);
+};
@@ -0,0 +1,8 @@
+import { stretchChannels, StretchRequest, StretchReply } from './timeStretch';
+
+// Renders one stretch request off the main thread; the channel data is transferred both ways, not copied.
+self.onmessage = (e: MessageEvent<StretchRequest>) => {
+  const { id, channels, sampleRate, rate } = e.data;
+  const reply: StretchReply = { id, channels: stretchChannels(channels, sampleRate, rate) };
+  self.postMessage(reply, { transfer: reply.channels.map(c => c.buffer) });
+};
@@ -0,0 +1,194 @@
+import { Dialogue, DialogueLine } from "../types";
+import { getRandomImageForCategory } from "../constants";
+
+export type ImportFormat = 'srt' | 'vtt' | 'transcript' | 'text';
+
+export interface ParsedImport {
+  format: ImportFormat;
+  lines: DialogueLine[];
+  wordCount: number;
+}
+
+export const DEFAULT_SPEAKER = 'Narrator';
+// Answers the narrator in a "- ...\n- ..." subtitle exchange when the file never names a second voice.
+const SECOND_SPEAKER = 'Speaker 2';
+export const RECITE_CHUNK_WORDS = { MIN: 50, MAX: 70 };
+
+const TIMESTAMP = /(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{1,3}/;
+const CUE_TIMING = new RegExp(`(${TIMESTAMP.source})\\s*-->\\s*(${TIMESTAMP.source})`);
+// "Speaker: text", where the speaker is a short name rather than the start of a sentence.
+const SPEAKER_PREFIX = /^([A-Z][\w .'-]{0,30}?):\s+(.+)$/;
+// Labels that open ordinary prose ("Note: ...", "Update: ...") rather than name whoever is talking.
+const SENTENCE_OPENERS = new Set([
+  'note', 'notes', 'update', 'warning', 'caution', 'important', 'tip', 'hint', 'reminder', 'example', 'summary',
+  'conclusion', 'edit', 'source', 'ps', 'nb', 'subject', 'date', 'time', 'result', 'step', 'definition', 'meaning', 'disclaimer'
+]);
+
+export const countWords = (text: string) => text.split(/\s+/).filter(w => /[A-Za-z0-9]/.test(w)).length;
+
+// Accepts hh:mm:ss,mmm (SRT), hh:mm:ss.mmm and mm:ss.mmm (VTT).
+export const parseTimestamp = (value: string): number => {
+  const [clock, fraction = '0'] = value.trim().split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${fraction}`);
+};
+
+export const formatTimestamp = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const stripMarkup = (text: string) => text
+  .replace(/<[^>]+>/g, '')
+  .replace(/\{\\[^}]*\}/g, '')
+  .replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const matchSpeaker = (text: string): DialogueLine | null => {
+  const match = text.match(SPEAKER_PREFIX);
+  if (!match || SENTENCE_OPENERS.has(match[1].trim().toLowerCase())) return null;
+  return { speaker: match[1].trim(), text: match[2].trim() };
+};
+
+const splitSpeaker = (text: string, fallback: string): DialogueLine => matchSpeaker(text) || { speaker: fallback, text };
+
+// SRT and VTT share the "start --> end" cue layout; VTT adds a header, NOTE/STYLE blocks and <v Speaker> voice tags.
+const parseCues = (raw: string): DialogueLine[] => {
+  const lines: DialogueLine[] = [];
+  let lastSpeaker = DEFAULT_SPEAKER;
+  // The most recent speaker other than lastSpeaker: who an unlabelled dash turn is answering.
+  let otherSpeaker: string | null = null;
+  const setSpeaker = (speaker: string) => { if (speaker !== lastSpeaker) { otherSpeaker = lastSpeaker; lastSpeaker = speaker; } };
+  const nextTurnSpeaker = () => otherSpeaker ?? (lastSpeaker === SECOND_SPEAKER ? DEFAULT_SPEAKER : SECOND_SPEAKER);
+  raw.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const rows = block.split('\n').map(r => r.trim()).filter(Boolean);
+    const timingIndex = rows.findIndex(r => CUE_TIMING.test(r));
+    if (timingIndex < 0) return;
+    const [, start, , end] = rows[timingIndex].match(CUE_TIMING)!;
+    const body = rows.slice(timingIndex + 1);
+    if (body.length === 0) return;
+
+    const voice = body.join(' ').match(/<v(?:\.[^ >]+)?\s+([^>]+)>/);
+    // A cue whose rows all start with "- " holds alternating turns. Each becomes its own line with the
+    // other speaker, and the cue's time is shared out by word count so the ranges never overlap.
+    const isExchange = body.every(r => r.startsWith('-')) && body.length > 1;
+    const turns = (isExchange ? body.map(r => r.replace(/^-\s*/, '')) : [body.join(' ')]).map(stripMarkup).filter(Boolean);
+    const cueStart = parseTimestamp(start);
+    const cueEnd = parseTimestamp(end);
+    const weights = turns.map(turn => Math.max(1, countWords(turn)));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let elapsed = 0;
+    turns.forEach((turn, i) => {
+      const line = splitSpeaker(turn, i > 0 ? nextTurnSpeaker() : voice ? voice[1].trim() : lastSpeaker);
+      setSpeaker(line.speaker);
+      const from = cueStart + (cueEnd - cueStart) * (elapsed / total);
+      elapsed += weights[i];
+      lines.push({ ...line, cue: { start: from, end: cueStart + (cueEnd - cueStart) * (elapsed / total) } });
+    });
+  });
+  return lines;
+};
+
+const parseTranscript = (raw: string): DialogueLine[] => {
+  const lines: DialogueLine[] = [];
+  raw.split(/\r?\n/).map(r => r.trim()).filter(Boolean).forEach(row => {
+    // Unlabelled rows continue the previous speaker's turn.
+    if (!matchSpeaker(row) && lines.length) lines[lines.length - 1].text += ` ${row}`;
+    else lines.push(splitSpeaker(row, DEFAULT_SPEAKER));
+  });
+  return lines;
+};
+
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'vs', 'etc', 'approx', 'no', 'inc', 'ltd', 'co', 'dept', 'fig', 'ave', 'rd',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec'
+]);
+
+// A full stop that ends an abbreviation ("Dr."), an initial or dotted acronym ("J.", "e.g.", "U.S.") or sits
+// inside a number ("3.5") does not end the sentence.
+const continuesSentence = (piece: string, next: string) => {
+  if (!piece.endsWith('.')) return false;
+  if (/\d\.$/.test(piece) && /^\d/.test(next)) return true;
+  const word = (piece.split(' ').pop() || '').replace(/^["'(\[]+/, '').slice(0, -1).toLowerCase();
+  return ABBREVIATIONS.has(word) || /^[a-z](\.[a-z])*$/.test(word);
+};
+
+const splitSentences = (text: string): string[] => {
+  const pieces = text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) || [];
+  const sentences: string[] = [];
+  let current = '';
+  pieces.forEach((piece, i) => {
+    current += piece;
+    if (i + 1 < pieces.length && continuesSentence(current.trimEnd(), pieces[i + 1])) return;
+    sentences.push(current.trim());
+    current = '';
+  });
+  return sentences.filter(Boolean);
+};
+
+// Plain prose becomes one line per sentence, all read by a single narrator.
+const parsePlainText = (raw: string): DialogueLine[] =>
+  splitSentences(raw.replace(/\s+/g, ' ')).map(text => ({ speaker: DEFAULT_SPEAKER, text }));
+
+export const detectFormat = (raw: string, filename = ''): ImportFormat => {
+  const name = filename.toLowerCase();
+  if (name.endsWith('.vtt') || raw.trimStart().startsWith('WEBVTT')) return 'vtt';
+  if (name.endsWith('.srt') || CUE_TIMING.test(raw)) return 'srt';
+  const rows = raw.split(/\r?\n/).map(r => r.trim()).filter(Boolean);
+  const uses = new Map<string, number>();
+  rows.forEach(r => { const line = matchSpeaker(r); if (line) uses.set(line.speaker, (uses.get(line.speaker) || 0) + 1); });
+  const labelled = Array.from(uses.values()).reduce((sum, n) => sum + n, 0);
+  if (rows.length === 0 || labelled / rows.length < 0.5) return 'text';
+  // A real transcript keeps coming back to the same few names: two that recur, or one on most rows (a monologue).
+  const recurring = Array.from(uses.values()).filter(n => n > 1);
+  return recurring.length >= 2 || (recurring.length === 1 && recurring[0] / rows.length > 0.5) ? 'transcript' : 'text';
+};
+
+export const parseImport = (raw: string, filename?: string): ParsedImport => {
+  const format = detectFormat(raw, filename);
+  const lines = format === 'srt' || format === 'vtt' ? parseCues(raw)
+    : format === 'transcript' ? parseTranscript(raw)
+    : parsePlainText(raw);
+  return { format, lines, wordCount: lines.reduce((sum, l) => sum + countWords(l.text), 0) };
+};
+
+// Returns the end index (exclusive) of a chunk starting at `start` that lands in the recite word range when the lines allow it.
+export const cutReciteChunk = (lines: DialogueLine[], start: number, min = RECITE_CHUNK_WORDS.MIN, max = RECITE_CHUNK_WORDS.MAX): number => {
+  let words = 0;
+  let end = start;
+  while (end < lines.length) {
+    const next = countWords(lines[end].text);
+    if (words >= min && words + next > max) break;
+    words += next;
+    end++;
+    if (words >= min && words <= max) break;
+  }
+  return Math.max(end, Math.min(start + 1, lines.length));
+};
+
+const estimateDuration = (lines: DialogueLine[]) => {
+  const first = lines[0]?.cue;
+  const last = lines[lines.length - 1]?.cue;
+  // Without timestamps assume a relaxed 130 words per minute.
+  const seconds = first && last ? last.end - first.start : (lines.reduce((sum, l) => sum + countWords(l.text), 0) / 130) * 60;
+  return `${Math.max(1, Math.round(seconds / 60))} min`;
+};
+
+// Title and scenario arrive already localised; the caller builds them from the message catalogue.
+export const buildImportedDialogue = (lines: DialogueLine[], title: string, scenario: string, keepTimestamps: boolean): Dialogue => {
+  const kept: DialogueLine[] = keepTimestamps ? lines.map(l => ({ ...l })) : lines.map(({ speaker, text }) => ({ speaker, text }));
+  return {
+    id: `import_${Date.now()}`,
+    title,
+    scenario,
+    lines: kept,
+    difficulty: 'Intermediate',
+    category: 'Daily',
+    duration: estimateDuration(lines),
+    imageUrl: getRandomImageForCategory('Daily'),
+    tags: ['imported']
+  };
+};
@@ -0,0 +1,76 @@
+import { VocabEntry } from "../types";
+import { STORAGE_KEYS } from "../constants";
+
+export type VocabSort = 'recent' | 'alphabetical' | 'dialogue';
+
+export type NewVocabEntry = Omit<VocabEntry, 'id' | 'addedAt'>;
+
+export const loadVocabulary = (): VocabEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.VOCABULARY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) { return []; }
+};
+
+export const saveVocabulary = (vocabulary: VocabEntry[]) => {
+  localStorage.setItem(STORAGE_KEYS.VOCABULARY, JSON.stringify(vocabulary));
+};
+
+// The same word from another dialogue is a separate entry: its sentence and often its sense differ.
+export const findVocabEntry = (vocabulary: VocabEntry[], word: string, dialogueId: string): VocabEntry | undefined =>
+  vocabulary.find(e => e.dialogueId === dialogueId && e.word.toLowerCase() === word.toLowerCase());
+
+// Saving a word that is already in the notebook refreshes its definition and sentence instead of adding a duplicate.
+export const addVocabEntry = (entry: NewVocabEntry, now: number = Date.now()): VocabEntry => {
+  const vocabulary = loadVocabulary();
+  const existing = findVocabEntry(vocabulary, entry.word, entry.dialogueId);
+  const saved: VocabEntry = existing
+    ? { ...existing, ...entry }
+    : { ...entry, id: `${now.toString(36)}_${Math.random().toString(36).slice(2, 6)}`, addedAt: now };
+  saveVocabulary(existing ? vocabulary.map(e => e.id === existing.id ? saved : e) : [...vocabulary, saved]);
+  return saved;
+};
+
+export const removeVocabEntry = (id: string) => {
+  saveVocabulary(loadVocabulary().filter(e => e.id !== id));
+};
+
+export const searchVocabulary = (vocabulary: VocabEntry[], query: string): VocabEntry[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return vocabulary;
+  return vocabulary.filter(e => [e.word, e.definition, e.sentence, e.dialogueTitle].some(field => field.toLowerCase().includes(q)));
+};
+
+export const sortVocabulary = (vocabulary: VocabEntry[], sort: VocabSort): VocabEntry[] => {
+  const byWord = (a: VocabEntry, b: VocabEntry) => a.word.localeCompare(b.word, undefined, { sensitivity: 'base' });
+  return [...vocabulary].sort(
+    sort === 'alphabetical' ? byWord
+    : sort === 'dialogue' ? (a, b) => a.dialogueTitle.localeCompare(b.dialogueTitle) || byWord(a, b)
+    : (a, b) => b.addedAt - a.addedAt
+  );
+};
+
+const csvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (vocabulary: VocabEntry[]): string => {
+  const rows = [['word', 'definition', 'sentence', 'dialogue', 'added']]
+    .concat(vocabulary.map(e => [e.word, e.definition, e.sentence, e.dialogueTitle, new Date(e.addedAt).toISOString().slice(0, 10)]));
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n');
+};
+
+const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+// Tabs and line breaks would split a note, so they are flattened before the field is written.
+const ankiField = (value: string) => escapeHtml(value.replace(/[\t\r\n]+/g, ' ').trim());
+const ankiTag = (value: string) => value.trim().toLowerCase().replace(/\s+/g, '_');
+
+// Header lines are understood by Anki 2.1.54+; older versions skip them as comments.
+// Front: the word. Back: the definition with the source sentence underneath, the word highlighted.
+export const toAnkiTsv = (vocabulary: VocabEntry[]): string => {
+  const header = ['#separator:tab', '#html:true', '#tags column:3'];
+  const notes = vocabulary.map(e => {
+    const sentence = ankiField(e.sentence).replace(new RegExp(`\\b(${e.word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})\\b`, 'gi'), '<b>$1</b>');
+    const back = `${ankiField(e.definition)}<br><br><i>${sentence}</i>`;
+    return [ankiField(e.word), back, `linguaflow ${ankiTag(e.dialogueTitle)}`].join('\t');
+  });
+  return [...header, ...notes].join('\n');
+};
@@ -0,0 +1,21 @@
+import { Dialogue, DialogueLine } from "../types";
+import { TTS_VOICES, DEFAULT_VOICE } from "../constants";
+
+export const getSpeakers = (lines: DialogueLine[]): string[] =>
+  Array.from(new Set(lines.map(l => l.speaker || '')));
+
+// Gives each speaker its own voice, keeping any voices already chosen and rotating through the rest.
+export const autoCast = (lines: DialogueLine[], existing: Record<string, string> = {}): Record<string, string> => {
+  const cast: Record<string, string> = {};
+  const used = new Set(Object.values(existing));
+  const free = TTS_VOICES.map(v => v.name).filter(v => !used.has(v));
+  let next = 0;
+  getSpeakers(lines).forEach(speaker => {
+    if (existing[speaker]) cast[speaker] = existing[speaker];
+    else cast[speaker] = free.length ? free[next++ % free.length] : DEFAULT_VOICE;
+  });
+  return cast;
+};
+
+export const isCastComplete = (dialogue: Dialogue): boolean =>
+  !!dialogue.cast && getSpeakers(dialogue.lines).every(s => !!dialogue.cast![s]);
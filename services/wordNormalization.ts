@@ -0,0 +1,133 @@
+// Turns a written word into the spoken units it stands for, so "I'd", "£85" and "colour"
+// compare equal to "I would", "eighty-five pounds" and "color".
+
+// Each unit lists every spelling it may be read as; two units match when their forms overlap.
+export type WordUnit = string[];
+
+const ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion'];
+const NUMBER_WORDS = new Set([...ONES, ...TENS.filter(Boolean), 'hundred', ...SCALES.filter(Boolean)]);
+
+const IRREGULAR_ORDINALS: Record<string, string> = { one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth' };
+
+const CURRENCIES: Record<string, [string, string]> = { '£': ['pound', 'pounds'], '$': ['dollar', 'dollars'], '€': ['euro', 'euros'] };
+
+const CONTRACTIONS: Record<string, string[][]> = {
+  "can't": [['can'], ['not']], cannot: [['can'], ['not']], "won't": [['will'], ['not']], "shan't": [['shall'], ['not']], "let's": [['let'], ['us']]
+};
+const CONTRACTION_SUFFIXES: [RegExp, string[]][] = [
+  [/^(\w+)n't$/, ['not']], [/^(\w+)'re$/, ['are']], [/^(\w+)'ve$/, ['have']], [/^(\w+)'ll$/, ['will']],
+  [/^(\w+)'d$/, ['would', 'had']], [/^(\w+)'m$/, ['am']]
+];
+// "'s" is only expanded after these words; elsewhere it is a possessive and stays part of the word.
+const S_CONTRACTION_BASES = new Set(['it', 'he', 'she', 'that', 'what', 'there', 'here', 'who', 'where', 'how', 'when', 'why', 'this']);
+
+const BRITISH_SPELLINGS: Record<string, string> = {
+  grey: 'gray', programme: 'program', programmes: 'programs', cheque: 'check', tyre: 'tire', tyres: 'tires', jewellery: 'jewelry',
+  aluminium: 'aluminum', mum: 'mom', pyjamas: 'pajamas', plough: 'plow', defence: 'defense', offence: 'offense', licence: 'license',
+  practise: 'practice', travelled: 'traveled', travelling: 'traveling', traveller: 'traveler', travellers: 'travelers',
+  cancelled: 'canceled', cancelling: 'canceling', labelled: 'labeled', modelling: 'modeling', enrol: 'enroll', fulfil: 'fulfill',
+  sceptical: 'skeptical', moustache: 'mustache', mould: 'mold', storey: 'story', aeroplane: 'airplane', manoeuvre: 'maneuver',
+  kerb: 'curb', learnt: 'learned', spelt: 'spelled', dreamt: 'dreamed', burnt: 'burned'
+};
+
+const below1000 = (n: number): string[] => {
+  const words: string[] = [];
+  if (n >= 100) { words.push(ONES[Math.floor(n / 100)], 'hundred'); n %= 100; }
+  if (n >= 20) { words.push(TENS[Math.floor(n / 10)]); n %= 10; if (n) words.push(ONES[n]); }
+  else if (n || !words.length) words.push(ONES[n]);
+  return words;
+};
+
+export const numberToWords = (n: number): string[] => {
+  if (n === 0) return ['zero'];
+  const words: string[] = [];
+  for (let scale = SCALES.length - 1; scale >= 0; scale--) {
+    const chunk = Math.floor(n / Math.pow(1000, scale)) % 1000;
+    if (chunk) words.push(...below1000(chunk), ...(SCALES[scale] ? [SCALES[scale]] : []));
+  }
+  return words;
+};
+
+const toOrdinal = (words: string[]): string[] => {
+  const last = words[words.length - 1];
+  const ordinal = IRREGULAR_ORDINALS[last] || (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return [...words.slice(0, -1), ordinal];
+};
+
+// Handles amounts, percentages and ordinals written with digits: "£85", "1,200", "3.5", "50%", "21st".
+const expandNumber = (word: string): string[] | null => {
+  const match = word.match(/^([£$€])?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(%|st|nd|rd|th|p)?$/);
+  if (!match) return null;
+  const [, currency, whole, fraction, suffix] = match;
+  const value = parseInt(whole.replace(/,/g, ''), 10);
+  if (!isFinite(value) || value >= 1e12) return null;
+  let words = numberToWords(value);
+  if (suffix === 'st' || suffix === 'nd' || suffix === 'rd' || suffix === 'th') return toOrdinal(words);
+  if (currency) {
+    words = [...words, CURRENCIES[currency][value === 1 ? 0 : 1]];
+    // "£1.50" is read "one pound fifty", so the pence follow the unit.
+    if (fraction) words.push(...numberToWords(parseInt(fraction.padEnd(2, '0').slice(0, 2), 10)));
+    return words;
+  }
+  if (fraction) words = [...words, 'point', ...fraction.split('').map(d => ONES[Number(d)])];
+  if (suffix === '%') words.push('percent');
+  if (suffix === 'p') words.push('pence');
+  return words;
+};
+
+const expandContraction = (word: string): WordUnit[] => {
+  if (CONTRACTIONS[word]) return CONTRACTIONS[word];
+  for (const [pattern, expansion] of CONTRACTION_SUFFIXES) {
+    const match = word.match(pattern);
+    if (match) return [[match[1]], expansion];
+  }
+  const possessive = word.match(/^(\w+)'s$/);
+  if (possessive && S_CONTRACTION_BASES.has(possessive[1])) return [[possessive[1]], ['is', 'has']];
+  return [[word]];
+};
+
+// British forms are folded onto American ones. Both sides go through the same rules, so a rule only
+// has to avoid merging two different real words; the length limits keep "four"/"for" and the like apart.
+export const spellingKey = (word: string): string => {
+  if (BRITISH_SPELLINGS[word]) return BRITISH_SPELLINGS[word];
+  let key = word;
+  if (key.length >= 6) key = key.replace(/our(s|ed|ing|ite|ites|able|er|ers|ful)?$/, 'or$1');
+  if (key.length >= 6) key = key.replace(/is(e|es|ed|ing|ation|ations)$/, 'iz$1');
+  key = key.replace(/yse(s|d)?$/, 'yze$1');
+  if (key.length >= 5) key = key.replace(/([^aeiouh])re(s)?$/, '$1er$2');
+  if (key.length >= 7) key = key.replace(/ogue(s)?$/, 'og$1');
+  return key;
+};
+
+const cleanWord = (raw: string) =>
+  raw.toLowerCase().replace(/[’‘`]/g, "'").replace(/^[^\p{L}\p{N}£$€]+|[^\p{L}\p{N}%]+$/gu, '');
+
+export const expandWord = (raw: string): WordUnit[] => {
+  const word = cleanWord(raw);
+  if (!word) return [];
+  const number = expandNumber(word);
+  if (number) return number.map(w => [w]);
+  return word.split(/[-/]+/).filter(Boolean)
+    .flatMap(expandContraction)
+    .map(forms => forms.map(spellingKey));
+};
+
+// A word read as a single unit, the way a contraction looks when typed without its apostrophe ("dont", "Id").
+export const joinedForm = (raw: string): string => spellingKey(cleanWord(raw).replace(/'/g, ''));
+
+// Fixes up a word stream after expansion: "per cent" reads as "percent", and the "and" in
+// "one hundred and five" is dropped so British and American number phrasing line up.
+export const normalizeUnits = <T extends { forms: WordUnit }>(units: T[]): T[] => {
+  const result: T[] = [];
+  units.forEach((unit, i) => {
+    const form = unit.forms[0];
+    const prev = units[i - 1]?.forms[0];
+    const next = units[i + 1]?.forms[0];
+    if (form === 'and' && (prev === 'hundred' || prev === 'thousand' || prev === 'million') && next && NUMBER_WORDS.has(next)) return;
+    if (form === 'cent' && prev === 'per') return;
+    result.push(form === 'per' && next === 'cent' ? { ...unit, forms: ['percent'] } : unit);
+  });
+  return result;
+};
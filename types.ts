@@ -1,8 +1,18 @@
+// Offsets in seconds within the stitched dialogue audio.
+export interface LineTiming {
+  start: number;
+  end: number;
+}
+
 export interface DialogueLine {
   speaker: string;
   text: string;
+  cue?: LineTiming; // range in the source recording: subtitle timestamps or an aligned uploaded clip
+  translations?: Partial<Record<Language, string>>; // generated once per learner language; dropped when the line is reworded
 }
 
+export type Language = 'en' | 'zh';
+
 export type ContentCategory = 'Daily' | 'BBC News' | 'TED Talk' | 'Interview' | 'Life Vlog';
 
 export interface Dialogue {
@@ -14,6 +24,37 @@ export interface Dialogue {
   category: ContentCategory;
   duration: string; // e.g. "2 min", "5 min"
   imageUrl?: string; // New field for card background
+  cast?: Record<string, string>; // speaker -> prebuilt TTS voice name
+  tags?: string[]; // free-form, lower-cased
+  recording?: AttachedRecording; // replaces TTS as the reference audio when present
+}
+
+// Metadata for an uploaded reference clip; the audio itself lives in IndexedDB and each line's cue marks its range.
+export interface AttachedRecording {
+  name: string;
+  duration: number; // seconds
+}
+
+export interface LineFeedback {
+  lineIndex: number;
+  score: number; // 0-100
+  transcription: string;
+  mispronouncedWords: string[];
+}
+
+export interface PhonemeIssue {
+  expected: string; // IPA
+  heard: string; // IPA, empty if dropped
+  note: string;
+}
+
+export interface WordPronunciation {
+  lineIndex: number;
+  wordIndex: number; // position in the line's whitespace-split words
+  expected: string;
+  heard: string;
+  score: number; // 0-100
+  phonemes: PhonemeIssue[];
 }
 
 export interface FeedbackResult {
@@ -22,6 +63,83 @@ export interface FeedbackResult {
   pronunciationAnalysis: string;
   intonationAnalysis: string;
   tips: string[];
+  lines?: LineFeedback[];
+  words?: WordPronunciation[];
+}
+
+export interface ReviewState {
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: number; // epoch ms
+  lastScore: number; // 0-100
+  lastReviewedAt: number;
+}
+
+export interface DialogueReview extends ReviewState {
+  dialogueId: string;
+  lines: Record<number, ReviewState>;
+}
+
+// A looked-up word kept with the sentence it came from, so it can be reviewed in context.
+export interface VocabEntry {
+  id: string;
+  word: string;
+  definition: string;
+  sentence: string;
+  dialogueId: string;
+  dialogueTitle: string; // copied so the notebook still reads correctly after the dialogue is deleted
+  voice?: string; // TTS voice of the sentence's speaker when the word was saved
+  addedAt: number; // epoch ms
+}
+
+export type PracticeActivity = 'listening' | 'dictation' | 'reading' | 'recitation' | 'translation' | 'roleplay';
+
+// Title and category are copied in so history still reads correctly after the dialogue is edited or deleted.
+export interface PracticeEntry {
+  id: string;
+  dialogueId: string;
+  dialogueTitle: string;
+  category: ContentCategory;
+  activity: PracticeActivity;
+  score?: number; // 0-100; listening has none
+  startedAt: number; // epoch ms
+  durationMs: number;
+}
+
+export type ProsodyFindingCode = 'flatMelody' | 'goodMelody' | 'narrowRange' | 'tooSlow' | 'tooFast' | 'missingPauses' | 'extraPauses' | 'offStress';
+
+// Findings are codes plus numbers so the UI can phrase them in the learner's language.
+export interface ProsodyFinding {
+  code: ProsodyFindingCode;
+  values?: Record<string, number>;
+}
+
+export interface ProsodyReport {
+  intonationScore: number; // 0-100, correlation of the DTW-aligned pitch contours
+  stressScore: number; // 0-100, correlation of the aligned energy envelopes
+  pitchRange: { reference: number; user: number }; // semitones, p10-p90
+  pace: { ratio: number; referenceRate: number; userRate: number }; // ratio of speech time; rates in syllables/s
+  pauses: { missing: number[]; extra: number[] }; // positions in reference seconds
+  findings: ProsodyFinding[];
+  contour: { reference: (number | null)[]; user: (number | null)[]; frameSeconds: number }; // semitones on the reference time axis
+}
+
+export interface ShadowSettings {
+  repeatCount: number;
+  gapMultiplier: number; // pause = line duration * multiplier
+  playbackRate: number;
+  recordAttempts: boolean;
+}
+
+// How much of the learner's own text is shown while reciting: all of it, with gaps, or none.
+export type VisibilityMode = 'visible' | 'cloze' | 'hidden';
+
+// A named position in a dialogue's audio, saved with the learner's session for that dialogue.
+export interface PlaybackBookmark {
+  id: string;
+  name: string;
+  time: number;
 }
 
 export enum AppState {